@@ -0,0 +1,43 @@
+import path from "node:path";
+import { defineConfig, devices } from "@playwright/test";
+
+const PORT = 5174;
+// Rendered by the global setup before any browser starts; Chromium loops it as the webcam
+const FAKE_CAMERA_FILE = path.resolve("node_modules/.cache/kiosk-browser/fake-camera.y4m");
+
+export default defineConfig({
+	testDir: "src/e2e/browser",
+	globalSetup: "./src/e2e/browser/fakeCamera.ts",
+	metadata: { fakeCameraFile: FAKE_CAMERA_FILE },
+	// Every journey drives one kiosk against its own mock gateway; the face detector is too heavy to run in parallel
+	workers: 1,
+	timeout: 60000,
+	expect: { timeout: 15000 },
+	forbidOnly: !!process.env.CI,
+	reporter: process.env.CI ? "list" : "html",
+	use: {
+		baseURL: `http://127.0.0.1:${PORT}`,
+		trace: "retain-on-failure",
+	},
+	projects: [
+		{
+			name: "chromium",
+			use: {
+				...devices["Desktop Chrome"],
+				permissions: ["camera"],
+				launchOptions: {
+					args: [
+						"--use-fake-ui-for-media-stream",
+						"--use-fake-device-for-media-stream",
+						`--use-file-for-fake-video-capture=${FAKE_CAMERA_FILE}`,
+					],
+				},
+			},
+		},
+	],
+	webServer: {
+		command: `npm run dev -- --host 127.0.0.1 --port ${PORT} --strictPort`,
+		url: `http://127.0.0.1:${PORT}`,
+		reuseExistingServer: !process.env.CI,
+	},
+});
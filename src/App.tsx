@@ -5,27 +5,76 @@ import HealthCheck from "./pages/HealthCheck";
 import CompleteAuthentication from "./pages/CompleteAuthentication";
 import { Toaster } from "react-hot-toast";
 import FinalResults from "./pages/FinalResults";
+import Enrollment from "./pages/Enrollment";
+import Admin from "./pages/Admin";
+import History from "./pages/History";
+import ConfirmIdentity from "./pages/ConfirmIdentity";
+import { useEffect } from "react";
+import { healthOutbox } from "./lib/services/healthOutbox";
+import { crashLog } from "./lib/services/crashLog";
+import { useKioskPresence } from "./lib/hooks/useKioskPresence";
+import { SimulatorPanel } from "./components/SimulatorPanel";
+import { RequireSession } from "./components/RequireSession";
+import { KioskShell } from "./components/KioskShell";
+import { KioskErrorBoundary } from "./components/KioskErrorBoundary";
 
 function App() {
+	// Replays checks that could not be delivered while the kiosk was offline
+	useEffect(() => healthOutbox.start(), []);
+	useEffect(() => crashLog.captureGlobalErrors(), []);
+	useKioskPresence();
+
 	return (
-		<>
+		<KioskErrorBoundary>
 			<Router>
-				<Routes>
-					<Route path="/" element={<Home />} />
-					<Route
-						path="/face-identification"
-						element={<FaceIdentification />}
-					/>
-					<Route path="/health-check" element={<HealthCheck />} />
-					<Route path="/final-results" element={<FinalResults />} />
-					<Route
-						path="/complete-authentication"
-						element={<CompleteAuthentication />}
-					/>
-				</Routes>
+				<KioskShell>
+					<Routes>
+						<Route path="/" element={<Home />} />
+						<Route
+							path="/face-identification"
+							element={<FaceIdentification />}
+						/>
+						<Route
+							path="/confirm-identity"
+							element={
+								<RequireSession stage="identified" before="completed">
+									<ConfirmIdentity />
+								</RequireSession>
+							}
+						/>
+						<Route
+							path="/health-check"
+							element={
+								<RequireSession stage="identified" before="completed">
+									<HealthCheck />
+								</RequireSession>
+							}
+						/>
+						<Route
+							path="/final-results"
+							element={
+								<RequireSession stage="completed">
+									<FinalResults />
+								</RequireSession>
+							}
+						/>
+						<Route path="/enroll" element={<Enrollment />} />
+						<Route path="/admin" element={<Admin />} />
+						<Route path="/history" element={<History />} />
+						<Route
+							path="/complete-authentication"
+							element={
+								<RequireSession stage="identified" before="completed">
+									<CompleteAuthentication />
+								</RequireSession>
+							}
+						/>
+					</Routes>
+				</KioskShell>
 			</Router>
 			<Toaster position="bottom-right" />
-		</>
+			<SimulatorPanel />
+		</KioskErrorBoundary>
 	);
 }
 
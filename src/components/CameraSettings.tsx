@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { ArrowDown, ArrowUp, CheckCircle, XCircle } from "@phosphor-icons/react";
+import {
+	CAMERA_SOURCE_LABELS,
+	createCameraSource,
+	getCameraSettings,
+	listVideoDevices,
+	setCameraSettings,
+	type CameraSettings as CameraSettingsValue,
+	type CameraSourceKind,
+} from "../lib/services/cameraSources";
+import { useI18n } from "../lib/hooks/useI18n";
+
+const ALL_SOURCES = Object.keys(CAMERA_SOURCE_LABELS) as CameraSourceKind[];
+
+// Camera source priority, USB device and fallback video file; takes effect the next time a camera page opens
+export const CameraSettings = () => {
+	const { t } = useI18n();
+	const [settings, setSettings] = useState<CameraSettingsValue>(getCameraSettings);
+	const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+	const [probes, setProbes] = useState<Partial<Record<CameraSourceKind, boolean>>>({});
+
+	useEffect(() => {
+		listVideoDevices().then(setDevices).catch(() => setDevices([]));
+	}, []);
+
+	const enabled = (kind: CameraSourceKind) => settings.priority.includes(kind);
+
+	const toggle = (kind: CameraSourceKind) =>
+		setSettings((prev) => ({
+			...prev,
+			priority: enabled(kind) ? prev.priority.filter((item) => item !== kind) : [...prev.priority, kind],
+		}));
+
+	const move = (index: number, offset: number) =>
+		setSettings((prev) => {
+			const priority = [...prev.priority];
+			[priority[index], priority[index + offset]] = [priority[index + offset], priority[index]];
+			return { ...prev, priority };
+		});
+
+	const probeAll = async () => {
+		const results = await Promise.all(
+			ALL_SOURCES.map(async (kind) => {
+				const source = createCameraSource(kind, settings);
+				return [kind, source ? await source.probe().catch(() => false) : false] as const;
+			}),
+		);
+		setProbes(Object.fromEntries(results));
+	};
+
+	const save = () => {
+		if (settings.priority.length === 0) {
+			toast.error(t("cameraSettings.noSource"));
+			return;
+		}
+		if (enabled("file") && !settings.fileUrl) {
+			toast.error(t("cameraSettings.noFile"));
+			return;
+		}
+		setCameraSettings(settings);
+		toast.success(t("cameraSettings.saved"));
+	};
+
+	const ordered = [...settings.priority, ...ALL_SOURCES.filter((kind) => !enabled(kind))];
+
+	return (
+		<section className="w-full max-w-md flex flex-col gap-4">
+			<h2 className="text-xl font-medium">{t("cameraSettings.title")}</h2>
+
+			<ul className="flex flex-col gap-2">
+				{ordered.map((kind) => {
+					const index = settings.priority.indexOf(kind);
+					return (
+						<li key={kind} className="flex items-center gap-3 p-3 rounded-lg bg-[#272727]">
+							<input type="checkbox" checked={index >= 0} onChange={() => toggle(kind)} />
+							<span className={`flex-1 ${index < 0 ? "text-gray-500" : ""}`}>
+								{index >= 0 && `${index + 1}. `}
+								{t(CAMERA_SOURCE_LABELS[kind])}
+							</span>
+							{probes[kind] !== undefined &&
+								(probes[kind] ? (
+									<CheckCircle size={20} className="text-green-500" />
+								) : (
+									<XCircle size={20} className="text-red-500" />
+								))}
+							<button disabled={index <= 0} onClick={() => move(index, -1)} className="disabled:opacity-30">
+								<ArrowUp size={20} />
+							</button>
+							<button
+								disabled={index < 0 || index === settings.priority.length - 1}
+								onClick={() => move(index, 1)}
+								className="disabled:opacity-30"
+							>
+								<ArrowDown size={20} />
+							</button>
+						</li>
+					);
+				})}
+			</ul>
+
+			<label className="flex flex-col gap-1 text-sm text-gray-400">
+				{t("cameraSettings.device")}
+				<select
+					className="p-3 rounded-lg bg-[#272727] text-white"
+					value={settings.deviceId ?? ""}
+					onChange={(event) => setSettings((prev) => ({ ...prev, deviceId: event.target.value || null }))}
+				>
+					<option value="">{t("cameraSettings.defaultDevice")}</option>
+					{devices
+						.filter((device) => device.deviceId)
+						.map((device, index) => (
+							<option key={device.deviceId} value={device.deviceId}>
+								{device.label || t("cameraSettings.deviceNumber", { index: index + 1 })}
+							</option>
+						))}
+				</select>
+			</label>
+
+			<label className="flex flex-col gap-1 text-sm text-gray-400">
+				{t("cameraSettings.file")}
+				<input
+					className="p-3 rounded-lg bg-[#272727] text-white"
+					placeholder="/videos/demo.mp4"
+					value={settings.fileUrl ?? ""}
+					onChange={(event) => setSettings((prev) => ({ ...prev, fileUrl: event.target.value.trim() || null }))}
+				/>
+			</label>
+
+			<div className="flex gap-3">
+				<button className="flex-1 py-3 rounded-full bg-[#272727]" onClick={probeAll}>
+					{t("common.check")}
+				</button>
+				<button className="flex-1 py-3 rounded-full bg-[#5096FF]" onClick={save}>
+					{t("common.save")}
+				</button>
+			</div>
+		</section>
+	);
+};
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Bug } from "@phosphor-icons/react";
+import { crashLog, downloadCrashLog, type CrashKind, type CrashRecord } from "../lib/services/crashLog";
+import { logger } from "../lib/services/logger";
+import { useI18n } from "../lib/hooks/useI18n";
+import type { MessageKey } from "../lib/i18n";
+
+const kioskLog = logger.category("kiosk");
+
+const KIND_LABELS: Record<CrashKind, MessageKey> = {
+	render: "crashes.kind.render",
+	uncaught: "crashes.kind.uncaught",
+	rejection: "crashes.kind.rejection",
+};
+
+// Crashes recorded on this kiosk, newest first; the JSON export is what gets attached to a bug report
+export const CrashLogViewer = () => {
+	const { t } = useI18n();
+	const [records, setRecords] = useState<CrashRecord[]>([]);
+	const [expandedId, setExpandedId] = useState<string | null>(null);
+
+	useEffect(() => crashLog.subscribe(setRecords), []);
+
+	const exportLog = () => downloadCrashLog(records, `crashes-${format(new Date(), "yyyy-MM-dd-HHmm")}.json`);
+
+	const clear = async () => {
+		if (!window.confirm(t("crashes.confirmClear"))) return;
+		try {
+			await crashLog.clear();
+			toast.success(t("crashes.cleared"));
+		} catch (error) {
+			kioskLog.error("Failed to clear crash log", error);
+			toast.error(t("crashes.clearFailed"));
+		}
+	};
+
+	return (
+		<section className="w-full max-w-md flex flex-col gap-4">
+			<h2 className="text-xl font-medium flex items-center gap-2">
+				<Bug size={24} /> {t("crashes.title")}
+				<span className="text-sm text-gray-400">{records.length}</span>
+			</h2>
+
+			{records.length === 0 ? (
+				<p className="text-sm text-gray-400">{t("crashes.empty")}</p>
+			) : (
+				<ul className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+					{records.map((record) => (
+						<li key={record.id} className="bg-[#272727] rounded-lg p-3 text-sm">
+							<button
+								className="w-full flex flex-col gap-1 text-left"
+								onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+							>
+								<span className="flex gap-2 text-gray-400">
+									<span>{format(record.occurredAt, "dd.MM HH:mm:ss")}</span>
+									<span className="text-[#5096FF]">{t(KIND_LABELS[record.kind])}</span>
+									<span className="font-mono">{record.route}</span>
+								</span>
+								<span className="break-all">{record.message}</span>
+							</button>
+
+							{expandedId === record.id && (
+								<div className="mt-2 flex flex-col gap-2 font-mono text-xs text-gray-300">
+									<span>{t("crashes.session", { id: record.sessionId ?? "—" })}</span>
+									{record.stack && <pre className="whitespace-pre-wrap break-all">{record.stack}</pre>}
+									{record.componentStack && (
+										<pre className="whitespace-pre-wrap break-all text-gray-500">{record.componentStack}</pre>
+									)}
+									{record.sensorEvents.length > 0 && (
+										<ul className="flex flex-col gap-1">
+											{record.sensorEvents.map(({ at, event, data }, index) => (
+												<li key={index} className="flex gap-2">
+													<span className="text-gray-500">{format(at, "HH:mm:ss")}</span>
+													<span className="text-[#5096FF]">{event}</span>
+													<span className="break-all">{JSON.stringify(data)}</span>
+												</li>
+											))}
+										</ul>
+									)}
+								</div>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+
+			<div className="flex gap-3">
+				<button
+					className="flex-1 py-3 rounded-full bg-[#272727] disabled:opacity-50"
+					onClick={clear}
+					disabled={records.length === 0}
+				>
+					{t("crashes.clear")}
+				</button>
+				<button
+					className="flex-1 py-3 rounded-full bg-[#5096FF] disabled:opacity-50"
+					onClick={exportLog}
+					disabled={records.length === 0}
+				>
+					{t("crashes.export")}
+				</button>
+			</div>
+		</section>
+	);
+};
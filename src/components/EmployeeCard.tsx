@@ -0,0 +1,40 @@
+import { motion } from "framer-motion";
+import { UserCircle } from "@phosphor-icons/react";
+import type { EmployeeProfile } from "../lib/services/faceRecognitionService";
+import { useI18n } from "../lib/hooks/useI18n";
+
+type EmployeeCardProps = {
+	employee: EmployeeProfile;
+	size?: "large" | "compact";
+};
+
+export const EmployeeCard = ({ employee, size = "compact" }: EmployeeCardProps) => {
+	const { t } = useI18n();
+	const large = size === "large";
+	const details = [employee.department, employee.shift && t("employee.shift", { shift: employee.shift })]
+		.filter(Boolean)
+		.join(" · ");
+
+	return (
+		<motion.div
+			className={`w-full max-w-md flex items-center gap-4 bg-gray-900 a11y:bg-black a11y:border-2 a11y:border-white rounded-lg ${large ? "p-6 flex-col text-center" : "p-4 mb-6"}`}
+			initial={{ opacity: 0, y: 10 }}
+			animate={{ opacity: 1, y: 0 }}
+		>
+			{employee.photoUrl ? (
+				<img
+					src={employee.photoUrl}
+					alt={employee.name}
+					className={`rounded-full object-cover ${large ? "w-40 h-40" : "w-16 h-16"}`}
+				/>
+			) : (
+				<UserCircle className={`text-gray-500 ${large ? "w-40 h-40" : "w-16 h-16"}`} />
+			)}
+			<div className="flex flex-col">
+				<p className={`font-medium ${large ? "text-3xl" : "text-xl"}`}>{employee.name}</p>
+				{details && <p className="text-gray-400 a11y:text-white">{details}</p>}
+				<p className="text-sm text-gray-500 a11y:text-white">{t("employee.number", { id: employee.employeeId })}</p>
+			</div>
+		</motion.div>
+	);
+};
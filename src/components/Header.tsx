@@ -1,13 +1,47 @@
+import { useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { format } from "date-fns";
-import { ru } from "date-fns/locale";
+import { CloudArrowUp } from "@phosphor-icons/react";
+import { usePendingUploads } from "../lib/hooks/usePendingUploads";
+import { useI18n } from "../lib/hooks/useI18n";
+
+// Holding the header this long opens the supervisor console
+const ADMIN_LONG_PRESS_MS = 3000;
 
 export const Header = () => {
+	const navigate = useNavigate();
 	const now = new Date();
+	const pendingUploads = usePendingUploads();
+	const { t, dateLocale } = useI18n();
+	const pressTimerRef = useRef<number | null>(null);
+
+	const cancelPress = () => {
+		if (pressTimerRef.current) clearTimeout(pressTimerRef.current);
+		pressTimerRef.current = null;
+	};
+
+	const startPress = () => {
+		cancelPress();
+		pressTimerRef.current = window.setTimeout(() => navigate("/admin"), ADMIN_LONG_PRESS_MS);
+	};
+
 	return (
-		<div className="flex justify-between items-center">
+		<div
+			className="flex justify-between items-center select-none"
+			onPointerDown={startPress}
+			onPointerUp={cancelPress}
+			onPointerLeave={cancelPress}
+			onPointerCancel={cancelPress}
+		>
 			<span className="text-sm">{format(now, "HH:mm")}</span>
+			{pendingUploads > 0 && (
+				<span className="flex items-center gap-1 text-xs a11y:text-sm text-yellow-400">
+					<CloudArrowUp size={16} />
+					{t("header.pendingUploads", { count: pendingUploads })}
+				</span>
+			)}
 			<span className="text-sm">
-				{format(now, "d MMMM", { locale: ru })}
+				{format(now, "d MMMM", { locale: dateLocale })}
 			</span>
 		</div>
 	);
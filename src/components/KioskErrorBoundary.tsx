@@ -0,0 +1,68 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { WarningCircle } from "@phosphor-icons/react";
+import { t } from "../lib/i18n";
+import { crashLog } from "../lib/services/crashLog";
+import { logger } from "../lib/services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+// Long enough to read the notice, short enough that the next worker never finds a dead screen
+const RECOVERY_SECONDS = 10;
+
+type KioskErrorBoundaryProps = {
+	children: ReactNode;
+};
+
+type KioskErrorBoundaryState = {
+	failed: boolean;
+	secondsLeft: number;
+};
+
+// Last line of defence against a white screen: record the crash, count down, then reload the app at Home
+export class KioskErrorBoundary extends Component<KioskErrorBoundaryProps, KioskErrorBoundaryState> {
+	state: KioskErrorBoundaryState = { failed: false, secondsLeft: RECOVERY_SECONDS };
+	private countdownTimer: number | null = null;
+
+	static getDerivedStateFromError(): Partial<KioskErrorBoundaryState> {
+		return { failed: true };
+	}
+
+	componentDidCatch(error: Error, info: ErrorInfo) {
+		kioskLog.error("Unhandled render error, restarting the kiosk", { error, componentStack: info.componentStack });
+		crashLog.record("render", error, info.componentStack ?? null);
+		if (this.countdownTimer !== null) return;
+
+		this.countdownTimer = window.setInterval(() => {
+			const secondsLeft = this.state.secondsLeft - 1;
+			if (secondsLeft <= 0) {
+				this.stopCountdown();
+				window.location.replace("/");
+			}
+			this.setState({ secondsLeft: Math.max(secondsLeft, 0) });
+		}, 1000);
+	}
+
+	componentWillUnmount() {
+		this.stopCountdown();
+	}
+
+	render() {
+		if (!this.state.failed) return this.props.children;
+		return (
+			<div className="min-h-screen bg-black text-white flex flex-col items-center justify-center gap-4 p-6 text-center">
+				<WarningCircle size={64} className="text-yellow-400" />
+				<p className="text-2xl font-medium" role="alert">
+					{t("kiosk.recovering")}
+				</p>
+				<p className="text-gray-400 a11y:text-white" aria-live="polite">
+					{t("kiosk.restartingIn", { count: this.state.secondsLeft })}
+				</p>
+			</div>
+		);
+	}
+
+	private stopCountdown() {
+		if (this.countdownTimer !== null) clearInterval(this.countdownTimer);
+		this.countdownTimer = null;
+	}
+}
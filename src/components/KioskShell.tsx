@@ -0,0 +1,16 @@
+import type { ReactNode } from "react";
+import { useIdleReset } from "../lib/hooks/useIdleReset";
+import { useWakeLock } from "../lib/hooks/useWakeLock";
+import { useKioskLockdown } from "../lib/hooks/useKioskLockdown";
+
+type KioskShellProps = {
+	children: ReactNode;
+};
+
+// Unattended-terminal behaviour around every route; must sit inside the router
+export const KioskShell = ({ children }: KioskShellProps) => {
+	useIdleReset();
+	useWakeLock();
+	useKioskLockdown();
+	return <>{children}</>;
+};
@@ -3,6 +3,9 @@ import { useEffect } from "react";
 import { motion } from "framer-motion";
 import { Icon } from "@phosphor-icons/react";
 import { LoadingSpinner } from "./LoadingSpinner";
+import { READING_TONE_CLASSES, type ReadingDescription } from "../lib/healthSteps";
+import { useAccessibilityMode } from "../lib/hooks/useAccessibilityMode";
+import { useI18n } from "../lib/hooks/useI18n";
 
 const circleVariants = {
 	visible: (progress: number) => ({
@@ -22,43 +25,63 @@ const circleVariants = {
 
 type LoadingCircleProps = {
 	icon: Icon;
+	// Accessible name of the progress ring, e.g. the step title
+	label?: string;
 	value: string | number | null;
 	unit: string;
+	precision?: number;
+	description?: ReadingDescription | null;
 	progress: number;
-	onComplete: () => void;
+	onComplete?: () => void;
 };
 
 export const LoadingCircle = ({
 	icon: Icon,
+	label,
 	value,
 	unit,
+	precision,
+	description,
 	progress,
 	onComplete,
 }: LoadingCircleProps) => {
 	useEffect(() => {
-		if (progress >= 100) {
-			setTimeout(onComplete, 500);
+		if (progress >= 100 && onComplete) {
+			const timer = setTimeout(onComplete, 500);
+			return () => clearTimeout(timer);
 		}
 	}, [progress, onComplete]);
 
+	const highContrast = useAccessibilityMode();
+	const { t } = useI18n();
+	const percent = Math.round(Math.min(Math.max(progress, 0), 100));
+
 	return (
-		<motion.div className="relative w-48 h-48 md:w-56 md:h-56">
+		<motion.div
+			className="relative w-48 h-48 md:w-56 md:h-56 a11y:mb-10"
+			role="progressbar"
+			aria-label={label}
+			aria-valuemin={0}
+			aria-valuemax={100}
+			aria-valuenow={percent}
+			aria-valuetext={t("common.progress", { percent })}
+		>
 			<svg className="w-full h-full" viewBox="0 0 100 100">
 				<motion.circle
 					cx="50"
 					cy="50"
 					r="45"
 					fill="none"
-					stroke="#272727"
-					strokeWidth="5"
+					stroke={highContrast ? "#FFFFFF" : "#272727"}
+					strokeWidth={highContrast ? 2 : 5}
 				/>
 				<motion.circle
 					cx="50"
 					cy="50"
 					r="45"
 					fill="none"
-					stroke="#5096FF"
-					strokeWidth="5"
+					stroke={highContrast ? "#FFD600" : "#5096FF"}
+					strokeWidth={highContrast ? 8 : 5}
 					variants={circleVariants}
 					custom={progress}
 					initial={{ pathLength: 0, opacity: 0 }}
@@ -73,15 +96,26 @@ export const LoadingCircle = ({
 				/>
 				{typeof value === "number" ? (
 					<>
-						<span className="text-3xl md:text-4xl font-bold">
-							{value}
+						<span className="text-3xl md:text-4xl a11y:text-5xl font-bold">
+							{precision === undefined ? value : value.toFixed(precision)}
 						</span>
-						<span className="text-sm md:text-base">{unit}</span>
+						<span className="text-sm md:text-base a11y:text-xl">{unit}</span>
+						{description && (
+							<span className={`text-xs md:text-sm a11y:text-lg font-medium ${READING_TONE_CLASSES[description.tone]}`}>
+								{description.label}
+							</span>
+						)}
 					</>
 				) : (
 					<LoadingSpinner />
 				)}
 			</div>
+			{/* The arc alone is easy to miss; accessibility mode spells the progress out */}
+			{highContrast && (
+				<span className="absolute inset-x-0 -bottom-10 text-center text-xl font-medium">
+					{t("common.progress", { percent })}
+				</span>
+			)}
 		</motion.div>
 	);
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { RequireSession } from "./RequireSession";
+import { checkSession } from "../lib/services/checkSession";
+
+const renderGuarded = () =>
+	render(
+		<MemoryRouter initialEntries={["/health-check"]}>
+			<Routes>
+				<Route path="/" element={<p>home</p>} />
+				<Route path="/final-results" element={<p>results</p>} />
+				<Route
+					path="/health-check"
+					element={
+						<RequireSession stage="identified" before="completed">
+							<p>health check</p>
+						</RequireSession>
+					}
+				/>
+			</Routes>
+		</MemoryRouter>,
+	);
+
+describe("RequireSession", () => {
+	afterEach(() => {
+		cleanup();
+		checkSession.reset();
+	});
+
+	it("lets an identified session in", () => {
+		checkSession.begin(["TEMPERATURE"]);
+		checkSession.identify("face-1", null);
+
+		renderGuarded();
+
+		expect(screen.getByText("health check")).toBeTruthy();
+	});
+
+	it("sends a session that has not been identified back home", () => {
+		checkSession.begin(["TEMPERATURE"]);
+
+		renderGuarded();
+
+		expect(screen.getByText("home")).toBeTruthy();
+	});
+
+	it("sends a completed session to its results instead of measuring it again", () => {
+		checkSession.begin(["TEMPERATURE"]);
+		checkSession.identify("face-1", null);
+		checkSession.complete({ TEMPERATURE: 36.6 }, { verdict: "ALLOW", reasons: [], evaluatedAt: 0 });
+
+		renderGuarded();
+
+		expect(screen.getByText("results")).toBeTruthy();
+	});
+});
@@ -0,0 +1,27 @@
+import type { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { useCheckSession } from "../lib/hooks/useCheckSession";
+import { hasReachedStage, type SessionStage } from "../lib/services/checkSession";
+
+type RequireSessionProps = {
+	stage: SessionStage;
+	// Stage the session must not have reached yet, so a finished check cannot re-enter the screens that measure it
+	before?: SessionStage;
+	children: ReactNode;
+};
+
+// Where a session that is already past a route belongs
+const STAGE_ROUTES: Record<SessionStage, string> = {
+	started: "/face-identification",
+	identified: "/health-check",
+	completed: "/final-results",
+};
+
+// Route guard: without a session at the required stage the kiosk goes back to the start, and a session that
+// is already past the route goes on to its own screen (a completed check to its results)
+export const RequireSession = ({ stage, before, children }: RequireSessionProps) => {
+	const session = useCheckSession();
+	if (!hasReachedStage(session, stage)) return <Navigate to="/" replace />;
+	if (before && hasReachedStage(session, before)) return <Navigate to={STAGE_ROUTES[before]} replace />;
+	return <>{children}</>;
+};
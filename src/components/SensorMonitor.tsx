@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Broadcast } from "@phosphor-icons/react";
+import { HEALTH_STEPS, type SensorData } from "../lib/healthSteps";
+import { createSensorTransport } from "../lib/services/sensorTransport";
+import { useI18n } from "../lib/hooks/useI18n";
+
+const MAX_EVENTS = 30;
+const MONITORED_EVENTS = [...new Set(Object.values(HEALTH_STEPS).map((step) => step.event)), "sensorReady", "camera"];
+
+type MonitorEvent = { id: number; at: number; event: string; data: SensorData | null };
+
+// Live feed of raw sensor gateway events for on-site troubleshooting
+export const SensorMonitor = () => {
+	const { t } = useI18n();
+	const [running, setRunning] = useState(false);
+	const [connected, setConnected] = useState<boolean | null>(null);
+	const [events, setEvents] = useState<MonitorEvent[]>([]);
+
+	useEffect(() => {
+		if (!running) return;
+		const transport = createSensorTransport();
+		let nextId = 0;
+
+		const record = (event: string, data: SensorData | null) =>
+			setEvents((prev) => [{ id: nextId++, at: Date.now(), event, data }, ...prev].slice(0, MAX_EVENTS));
+
+		const listeners = MONITORED_EVENTS.map((event) => {
+			const listener = (data: SensorData) => record(event, data);
+			transport.on(event, listener);
+			return [event, listener] as const;
+		});
+		transport.onConnectionChange((isConnected) => {
+			setConnected(isConnected);
+			record(isConnected ? "connect" : "disconnect", null);
+		});
+
+		return () => {
+			listeners.forEach(([event, listener]) => transport.off(event, listener));
+			transport.close();
+			setConnected(null);
+		};
+	}, [running]);
+
+	return (
+		<section className="w-full max-w-md flex flex-col gap-4">
+			<h2 className="text-xl font-medium flex items-center gap-2">
+				<Broadcast size={24} /> {t("sensors.title")}
+				{connected !== null && (
+					<span className={`text-sm ${connected ? "text-green-500" : "text-red-500"}`}>
+						{t(connected ? "sensors.connected" : "sensors.disconnected")}
+					</span>
+				)}
+			</h2>
+
+			<button
+				className={`py-3 rounded-full ${running ? "bg-[#272727]" : "bg-[#5096FF]"}`}
+				onClick={() => {
+					if (!running) setEvents([]);
+					setRunning(!running);
+				}}
+			>
+				{t(running ? "sensors.stop" : "sensors.start")}
+			</button>
+
+			{running && (
+				<ul className="flex flex-col gap-1 max-h-64 overflow-y-auto font-mono text-xs bg-[#272727] rounded-lg p-3">
+					{events.length === 0 && <li className="text-gray-400">{t("sensors.waiting")}</li>}
+					{events.map(({ id, at, event, data }) => (
+						<li key={id} className="flex gap-2">
+							<span className="text-gray-500">{format(at, "HH:mm:ss")}</span>
+							<span className="text-[#5096FF]">{event}</span>
+							{data && <span className="break-all">{JSON.stringify(data)}</span>}
+						</li>
+					))}
+				</ul>
+			)}
+		</section>
+	);
+};
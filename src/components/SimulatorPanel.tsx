@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Flask } from "@phosphor-icons/react";
+import {
+	getActiveScenario,
+	isSimulatorAllowed,
+	SENSOR_SCENARIOS,
+	setActiveScenario,
+} from "../lib/services/sensorSimulator";
+import { useI18n } from "../lib/hooks/useI18n";
+
+// Development-only switch between the live sensor gateway and recorded scenarios
+export const SimulatorPanel = () => {
+	const { t } = useI18n();
+	const [active, setActive] = useState(() => getActiveScenario()?.name ?? "");
+	const [open, setOpen] = useState(false);
+
+	if (!isSimulatorAllowed()) return null;
+
+	const select = (name: string) => {
+		setActiveScenario(name || null);
+		setActive(name);
+	};
+
+	return (
+		<div className="fixed bottom-4 left-4 z-50 text-xs text-white">
+			{open ? (
+				<div className="flex flex-col gap-2 p-3 rounded-lg bg-[#272727] border border-gray-600 max-w-xs">
+					<span className="font-medium">{t("simulator.title")}</span>
+					<select
+						className="p-2 rounded bg-black"
+						value={active}
+						onChange={(event) => select(event.target.value)}
+					>
+						<option value="">{t("simulator.off")}</option>
+						{SENSOR_SCENARIOS.map((scenario) => (
+							<option key={scenario.name} value={scenario.name}>
+								{scenario.name}
+							</option>
+						))}
+					</select>
+					{active && <span className="text-gray-400">{SENSOR_SCENARIOS.find(({ name }) => name === active)?.description}</span>}
+					<span className="text-gray-500">{t("simulator.nextCheck")}</span>
+					<button className="underline text-gray-400 self-start" onClick={() => setOpen(false)}>
+						{t("simulator.hide")}
+					</button>
+				</div>
+			) : (
+				<button
+					className={`flex items-center gap-1 px-3 py-2 rounded-full ${active ? "bg-yellow-500 text-black" : "bg-[#272727]"}`}
+					onClick={() => setOpen(true)}
+				>
+					<Flask size={16} />
+					{active || "sim"}
+				</button>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { SpeakerHigh, SpeakerSlash } from "@phosphor-icons/react";
+import { audioFeedback, getAudioSettings, setAudioSettings, type AudioSettings } from "../lib/services/audioFeedback";
+import { useI18n } from "../lib/hooks/useI18n";
+
+// Volume and mute for voice prompts and tones; the test button plays with the unsaved values
+export const SoundSettings = () => {
+	const { t } = useI18n();
+	const [settings, setSettings] = useState<AudioSettings>(getAudioSettings);
+
+	const test = () => {
+		audioFeedback.tone("success", settings);
+		audioFeedback.speak("steps.ALCOHOL.voice", undefined, settings);
+	};
+
+	const save = () => {
+		setAudioSettings(settings);
+		toast.success(t("sound.saved"));
+	};
+
+	return (
+		<section className="w-full max-w-md flex flex-col gap-4">
+			<h2 className="text-xl font-medium">{t("sound.title")}</h2>
+
+			<label className="flex items-center gap-3">
+				<input
+					type="checkbox"
+					checked={settings.muted}
+					onChange={(event) => setSettings((prev) => ({ ...prev, muted: event.target.checked }))}
+				/>
+				{t("sound.muted")}
+			</label>
+
+			<label className="flex flex-col gap-1 text-sm text-gray-400">
+				{t("sound.volume", { percent: Math.round(settings.volume * 100) })}
+				<span className="flex items-center gap-3 text-white">
+					<SpeakerSlash size={20} />
+					<input
+						type="range"
+						className="flex-1"
+						min={0}
+						max={1}
+						step={0.05}
+						value={settings.volume}
+						disabled={settings.muted}
+						onChange={(event) => setSettings((prev) => ({ ...prev, volume: Number(event.target.value) }))}
+					/>
+					<SpeakerHigh size={20} />
+				</span>
+			</label>
+
+			<div className="flex gap-3">
+				<button className="flex-1 py-3 rounded-full bg-[#272727]" onClick={test}>
+					{t("common.check")}
+				</button>
+				<button className="flex-1 py-3 rounded-full bg-[#5096FF]" onClick={save}>
+					{t("common.save")}
+				</button>
+			</div>
+		</section>
+	);
+};
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { Link, MemoryRouter, Route, Routes } from "react-router-dom";
+import { SupervisorGate } from "./SupervisorGate";
+import { getKioskSettings } from "../lib/kioskSettings";
+import { useIdleReset } from "../lib/hooks/useIdleReset";
+import { isSupervisorUnlocked, lockSupervisor, unlockSupervisor } from "../lib/supervisorAuth";
+
+const IdleReset = () => {
+	useIdleReset();
+	return null;
+};
+
+const renderConsole = () =>
+	render(
+		<MemoryRouter initialEntries={["/admin"]}>
+			<IdleReset />
+			<Routes>
+				<Route path="/" element={<Link to="/admin">admin</Link>} />
+				<Route
+					path="/admin"
+					element={
+						<SupervisorGate>
+							<Link to="/history">console</Link>
+						</SupervisorGate>
+					}
+				/>
+				<Route
+					path="/history"
+					element={
+						<SupervisorGate>
+							<p>history</p>
+						</SupervisorGate>
+					}
+				/>
+			</Routes>
+		</MemoryRouter>,
+	);
+
+describe("SupervisorGate", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.stubEnv("VITE_SUPERVISOR_PIN", "1234");
+		localStorage.clear();
+		sessionStorage.clear();
+		unlockSupervisor("1234");
+	});
+
+	afterEach(() => {
+		cleanup();
+		vi.useRealTimers();
+		vi.unstubAllEnvs();
+	});
+
+	it("keeps the unlock while moving between supervisor pages", () => {
+		renderConsole();
+
+		fireEvent.click(screen.getByText("console"));
+		act(() => vi.advanceTimersByTime(0));
+
+		expect(screen.getByText("history")).toBeTruthy();
+		expect(isSupervisorUnlocked()).toBe(true);
+	});
+
+	it("asks for the PIN again after an idle reset", () => {
+		renderConsole();
+		expect(screen.getByText("console")).toBeTruthy();
+
+		act(() => vi.advanceTimersByTime(getKioskSettings().idleTimeout * 1000));
+		expect(isSupervisorUnlocked()).toBe(false);
+
+		fireEvent.click(screen.getByText("admin"));
+		expect(screen.getByText("Доступ супервизора")).toBeTruthy();
+		expect(screen.queryByText("console")).toBeNull();
+	});
+
+	it("takes as many digits as the configured PIN has", () => {
+		vi.stubEnv("VITE_SUPERVISOR_PIN", "246810");
+		lockSupervisor();
+		renderConsole();
+
+		"24681".split("").forEach((digit) => fireEvent.click(screen.getByText(digit)));
+		expect(screen.queryByText("console")).toBeNull();
+
+		fireEvent.click(screen.getByText("0"));
+		expect(screen.getByText("console")).toBeTruthy();
+	});
+});
@@ -0,0 +1,125 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Backspace, LockSimple } from "@phosphor-icons/react";
+import {
+	getSupervisorLockout,
+	getSupervisorPin,
+	isSupervisorUnlocked,
+	lockSupervisor,
+	unlockSupervisor,
+} from "../lib/supervisorAuth";
+import { useI18n } from "../lib/hooks/useI18n";
+
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "", "0", "⌫"];
+
+// Gates on screen; the unlock survives moving between supervisor pages, not leaving them
+let mountedGates = 0;
+
+type SupervisorGateProps = {
+	children: ReactNode;
+};
+
+// Renders children only after a supervisor enters the PIN on an on-screen keypad
+export const SupervisorGate = ({ children }: SupervisorGateProps) => {
+	const navigate = useNavigate();
+	const { t } = useI18n();
+	const [unlocked, setUnlocked] = useState(isSupervisorUnlocked);
+	const [pin, setPin] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [lockout, setLockout] = useState(getSupervisorLockout);
+
+	// The next page mounts after this one unmounts, so the check waits a tick for a following gate
+	useEffect(() => {
+		mountedGates++;
+		return () => {
+			mountedGates--;
+			setTimeout(() => {
+				if (mountedGates === 0) lockSupervisor();
+			});
+		};
+	}, []);
+
+	// Counts the lockout down and re-enables the keypad when it ends
+	useEffect(() => {
+		if (lockout <= 0) return;
+		const timer = setTimeout(() => setLockout(getSupervisorLockout()), Math.min(lockout, 1000));
+		return () => clearTimeout(timer);
+	}, [lockout]);
+
+	if (unlocked) return <>{children}</>;
+
+	// The keypad submits once as many digits as the site PIN has are typed
+	const pinLength = getSupervisorPin()?.length ?? 0;
+	const configured = pinLength > 0;
+
+	const press = (key: string) => {
+		if (key === "⌫") {
+			setPin((prev) => prev.slice(0, -1));
+			return;
+		}
+		const next = `${pin}${key}`;
+		setError(null);
+		if (next.length < pinLength) {
+			setPin(next);
+			return;
+		}
+		if (unlockSupervisor(next)) {
+			setUnlocked(true);
+		} else {
+			setError(t("supervisor.wrongPin"));
+			setLockout(getSupervisorLockout());
+		}
+		setPin("");
+	};
+
+	return (
+		<div className="min-h-screen bg-black text-white flex flex-col items-center justify-center gap-6 p-6">
+			<LockSimple size={48} />
+			<h1 className="text-2xl font-medium">{t("supervisor.title")}</h1>
+
+			{!configured ? (
+				<p className="text-center text-gray-400">{t("supervisor.pinMissing")}</p>
+			) : (
+				<>
+					<div className="flex gap-3">
+						{Array.from({ length: pinLength }, (_, index) => (
+							<span
+								key={index}
+								className={`w-4 h-4 rounded-full ${index < pin.length ? "bg-[#5096FF]" : "bg-[#272727]"}`}
+							/>
+						))}
+					</div>
+					{lockout > 0 ? (
+						<p className="text-red-500" role="alert">
+							{t("supervisor.lockedOut", { count: Math.ceil(lockout / 1000) })}
+						</p>
+					) : (
+						error && <p className="text-red-500">{error}</p>
+					)}
+					<div className="grid grid-cols-3 gap-4">
+						{KEYS.map((key, index) =>
+							key ? (
+								<motion.button
+									key={index}
+									className="w-16 h-16 rounded-full bg-[#272727] text-2xl flex items-center justify-center disabled:opacity-50"
+									onClick={() => press(key)}
+									disabled={lockout > 0}
+									whileTap={{ scale: 0.9 }}
+								>
+									{key === "⌫" ? <Backspace size={24} /> : key}
+								</motion.button>
+							) : (
+								<span key={index} />
+							),
+						)}
+					</div>
+				</>
+			)}
+
+			<button className="text-gray-400 underline" onClick={() => navigate("/", { replace: true })}>
+				{t("supervisor.home")}
+			</button>
+		</div>
+	);
+};
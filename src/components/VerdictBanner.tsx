@@ -0,0 +1,41 @@
+import { motion } from "framer-motion";
+import { CheckCircle, WarningCircle, XCircle } from "@phosphor-icons/react";
+import type { Icon } from "@phosphor-icons/react";
+import { describeReason, type AdmissionDecision, type Verdict } from "../lib/admissionPolicy";
+import { useI18n } from "../lib/hooks/useI18n";
+
+const VERDICT_VIEW: Record<Verdict, { className: string; icon: Icon }> = {
+	ALLOW: { className: "bg-green-600", icon: CheckCircle as Icon },
+	DENY: { className: "bg-red-600", icon: XCircle as Icon },
+	REVIEW: { className: "bg-yellow-500 text-black", icon: WarningCircle as Icon },
+};
+
+type VerdictBannerProps = {
+	decision: AdmissionDecision;
+};
+
+export const VerdictBanner = ({ decision }: VerdictBannerProps) => {
+	const { t } = useI18n();
+	const { className, icon: Icon } = VERDICT_VIEW[decision.verdict];
+
+	return (
+		<motion.div
+			className={`w-full max-w-md rounded-lg p-6 mb-6 flex flex-col items-center text-center a11y:border-4 a11y:border-white ${className}`}
+			role="status"
+			aria-live="assertive"
+			aria-atomic="true"
+			initial={{ scale: 0.9, opacity: 0 }}
+			animate={{ scale: 1, opacity: 1 }}
+		>
+			<Icon weight="bold" className="w-14 h-14 mb-2" />
+			<p className="text-3xl font-bold uppercase">{t(`verdict.${decision.verdict}`)}</p>
+			{decision.reasons.length > 0 && (
+				<ul className="mt-3 text-base a11y:text-xl">
+					{decision.reasons.map((reason) => (
+						<li key={reason.code}>{describeReason(reason)}</li>
+					))}
+				</ul>
+			)}
+		</motion.div>
+	);
+};
@@ -1,14 +1,27 @@
 import { forwardRef } from "react";
 import { motion } from "framer-motion";
+import type { FramingGuidance } from "../lib/faceDetector";
+import { QUALITY_HINTS } from "../lib/frameQuality";
+import { useI18n } from "../lib/hooks/useI18n";
 
 interface VideoDisplayProps {
 	isProcessing: boolean;
 	videoRef: React.RefObject<HTMLVideoElement>;
 	canvasRef: React.RefObject<HTMLCanvasElement>;
+	// Liveness challenge shown over the video, e.g. "Моргните несколько раз"
+	prompt?: string | null;
+	captured?: number;
+	total?: number;
+	// Live framing result from on-device detection; draws the guide oval and hint when set
+	guidance?: FramingGuidance | null;
 }
 
 export const VideoDisplay = forwardRef<HTMLVideoElement, VideoDisplayProps>(
-	({ isProcessing, videoRef, canvasRef }) => {
+	({ isProcessing, videoRef, canvasRef, prompt, captured = 0, total = 0, guidance }) => {
+		const { t } = useI18n();
+		const hint = guidance && !guidance.ready ? t(QUALITY_HINTS[guidance.issues[0]]) : null;
+		const ovalColor = !guidance ? "#FFFFFF" : guidance.ready ? "#22C55E" : "#FACC15";
+
 		return (
 			<motion.div
 				className="w-full aspect-[3/4] max-w-md border-2 border-[#5096FF] rounded-3xl overflow-hidden relative"
@@ -24,6 +37,53 @@ export const VideoDisplay = forwardRef<HTMLVideoElement, VideoDisplayProps>(
 					muted
 				/>
 				<canvas ref={canvasRef} className="hidden" />
+				{guidance !== undefined && !isProcessing && (
+					<svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 300 400">
+						<ellipse
+							cx="150"
+							cy="180"
+							rx="95"
+							ry="130"
+							fill="none"
+							stroke={ovalColor}
+							strokeWidth="4"
+							strokeDasharray={guidance?.ready ? undefined : "12 8"}
+							className="transition-colors duration-300"
+						/>
+					</svg>
+				)}
+				{hint && !isProcessing && (
+					<motion.p
+						key={hint}
+						className="absolute inset-x-0 top-0 bg-black bg-opacity-60 a11y:bg-opacity-90 p-3 text-center text-yellow-400 a11y:text-xl"
+						initial={{ opacity: 0, y: -20 }}
+						animate={{ opacity: 1, y: 0 }}
+					>
+						{hint}
+					</motion.p>
+				)}
+				{prompt && !isProcessing && (
+					<motion.div
+						key={prompt}
+						className="absolute inset-x-0 bottom-0 bg-black bg-opacity-60 p-4 flex flex-col items-center gap-2"
+						initial={{ opacity: 0, y: 20 }}
+						animate={{ opacity: 1, y: 0 }}
+					>
+						<p className="text-lg a11y:text-2xl font-medium text-center" aria-live="polite">
+							{prompt}
+						</p>
+						{total > 0 && (
+							<div className="flex gap-1">
+								{Array.from({ length: total }, (_, index) => (
+									<span
+										key={index}
+										className={`w-2 h-2 rounded-full ${index < captured ? "bg-[#5096FF]" : "bg-gray-600"}`}
+									/>
+								))}
+							</div>
+						)}
+					</motion.div>
+				)}
 				{isProcessing && (
 					<div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
 						<div className="w-8 h-8 border-t-2 border-[#5096FF] rounded-full animate-spin" />
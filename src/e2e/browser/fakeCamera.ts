@@ -0,0 +1,93 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { chromium, type FullConfig } from "@playwright/test";
+
+// A frontal face from the detector's own demo photos, so the kiosk's real face detector has something to find
+const PHOTO = fileURLToPath(new URL("../../../node_modules/@vladmandic/face-api/demo/sample1.jpg", import.meta.url));
+// Source rectangle around the left-hand face: centred, and about half the frame wide once scaled down
+const CROP = { x: 290, y: 305, width: 440, height: 330 };
+const WIDTH = 320;
+const HEIGHT = 240;
+const FRAME_RATE = 10;
+const FRAME_COUNT = 20;
+
+type RenderOptions = { photo: string; crop: typeof CROP; width: number; height: number; count: number };
+
+// Runs in the page: draws each frame with a slight sway and flicker, so the liveness pre-check sees a live scene
+// rather than a still photo, and converts it to a base64 I420 plane set
+const renderFrames = async ({ photo, crop, width, height, count }: RenderOptions) => {
+	const image = new Image();
+	image.src = photo;
+	await image.decode();
+
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	const context = canvas.getContext("2d", { willReadFrequently: true })!;
+	const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+	const frames: string[] = [];
+	for (let index = 0; index < count; index++) {
+		const phase = Math.sin((2 * Math.PI * index) / count);
+		context.filter = `brightness(${1.15 + 0.05 * phase})`;
+		context.drawImage(image, crop.x + phase * crop.width * 0.01, crop.y, crop.width, crop.height, 0, 0, width, height);
+		const { data } = context.getImageData(0, 0, width, height);
+
+		const planes = new Uint8Array((width * height * 3) / 2);
+		const uOffset = width * height;
+		const vOffset = uOffset + (width * height) / 4;
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				const i = (y * width + x) * 4;
+				planes[y * width + x] = clamp(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+			}
+		}
+		for (let y = 0; y < height; y += 2) {
+			for (let x = 0; x < width; x += 2) {
+				let [r, g, b] = [0, 0, 0];
+				for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+					const i = ((y + dy) * width + x + dx) * 4;
+					r += data[i] / 4;
+					g += data[i + 1] / 4;
+					b += data[i + 2] / 4;
+				}
+				const chroma = (y / 2) * (width / 2) + x / 2;
+				planes[uOffset + chroma] = clamp(128 - 0.168736 * r - 0.331264 * g + 0.5 * b);
+				planes[vOffset + chroma] = clamp(128 + 0.5 * r - 0.418688 * g - 0.081312 * b);
+			}
+		}
+
+		let binary = "";
+		for (let start = 0; start < planes.length; start += 0x8000) {
+			binary += String.fromCharCode(...planes.subarray(start, start + 0x8000));
+		}
+		frames.push(btoa(binary));
+	}
+	return frames;
+};
+
+// Writes the looping Y4M clip Chromium plays as the webcam (--use-file-for-fake-video-capture)
+export default async function renderFakeCamera(config: FullConfig) {
+	const target = config.metadata.fakeCameraFile as string;
+	const photo = `data:image/jpeg;base64,${(await readFile(PHOTO)).toString("base64")}`;
+
+	const browser = await chromium.launch();
+	try {
+		const page = await browser.newPage();
+		const frames = await page.evaluate(renderFrames, {
+			photo,
+			crop: CROP,
+			width: WIDTH,
+			height: HEIGHT,
+			count: FRAME_COUNT,
+		});
+
+		const header = `YUV4MPEG2 W${WIDTH} H${HEIGHT} F${FRAME_RATE}:1 Ip A1:1 C420jpeg\n`;
+		const body = frames.flatMap((frame) => [Buffer.from("FRAME\n"), Buffer.from(frame, "base64")]);
+		await mkdir(path.dirname(target), { recursive: true });
+		await writeFile(target, Buffer.concat([Buffer.from(header), ...body]));
+	} finally {
+		await browser.close();
+	}
+}
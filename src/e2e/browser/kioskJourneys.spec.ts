@@ -0,0 +1,126 @@
+import { readFileSync } from "node:fs";
+import { expect, test, type Page } from "@playwright/test";
+import type { SensorScenario } from "../../lib/services/sensorSimulator";
+import { startMockGateway, type MockGateway } from "../mockGateway";
+
+// Shortened so the timeout journeys run in seconds; the flow is the same as with the 30 s default
+const SENSOR_TIMEOUT = 3;
+
+const MATCH = { matched: true, faceId: "face-1", liveness: { passed: true } };
+
+const scenario = (name: string): SensorScenario =>
+	JSON.parse(readFileSync(new URL(`../../fixtures/sensorScenarios/${name}.json`, import.meta.url), "utf8"));
+
+let gateway: MockGateway;
+
+test.beforeEach(async ({ page }) => {
+	gateway = await startMockGateway();
+	// Points the kiosk at the mock gateway and at the fake webcam before any of its code runs
+	await page.addInitScript(
+		({ serverUrl, sensorTimeout }) => {
+			localStorage.setItem("serverUrl", serverUrl);
+			localStorage.setItem("cameraPriority", "device");
+			localStorage.setItem("kioskSettings", JSON.stringify({ sensorTimeout }));
+		},
+		{ serverUrl: gateway.url, sensorTimeout: SENSOR_TIMEOUT },
+	);
+});
+
+test.afterEach(async () => {
+	await gateway.close();
+});
+
+const openDoor = async (page: Page) => {
+	await page.goto("/");
+	await page.getByText("открыть дверь").click();
+	await expect(page).toHaveURL(/\/face-identification$/);
+};
+
+// Home → face identification on the fake webcam → health check, with the sensors replaying the given scenario
+const startCheck = async (page: Page, sensors: string) => {
+	await openDoor(page);
+	await expect(page).toHaveURL(/\/health-check$/);
+	await gateway.sensorsConnected();
+	gateway.play(scenario(sensors));
+};
+
+test("success: admits the worker and shows the results", async ({ page }) => {
+	gateway.verifyFace(MATCH);
+	await startCheck(page, "normal");
+
+	await expect(page).toHaveURL(/\/final-results$/);
+	await expect(page.getByText("Доступ разрешён")).toBeVisible();
+	expect(gateway.healthRequests).toHaveLength(1);
+	expect(gateway.healthRequests[0]).toMatchObject({
+		faceId: "face-1",
+		alcoholData: { alcoholLevel: "Трезвый" },
+		admission: { verdict: "ALLOW" },
+	});
+});
+
+test("face not matched three times: shows the error toast and returns home", async ({ page }) => {
+	gateway.verifyFace({ matched: false });
+	await openDoor(page);
+
+	await expect(page.getByText(/Несколько ошибок подряд/)).toBeVisible();
+	await expect(page.getByText(/^Ошибка: Не удалось подтвердить личность/)).toBeVisible();
+	await expect(page).toHaveURL(/\/$/);
+	expect(gateway.healthRequests).toHaveLength(0);
+});
+
+test("match without a liveness verdict: rejected as a failed liveness check", async ({ page }) => {
+	gateway.verifyFace({ matched: true, faceId: "face-1" });
+	await openDoor(page);
+
+	await expect(page.getByText(/живой человек/)).toBeVisible();
+	await expect(page).toHaveURL(/\/$/);
+	expect(gateway.healthRequests).toHaveLength(0);
+});
+
+test("temperature timeout: reports the lost sensors, then the timeout, and returns home", async ({ page }) => {
+	gateway.verifyFace(MATCH);
+	await startCheck(page, "disconnect");
+
+	await expect(page.getByText("Нет связи с датчиками")).toBeVisible();
+	await expect(page.getByText("Сбой связи с сенсором температуры. Попробуйте снова.")).toBeVisible();
+	await expect(page).toHaveURL(/\/$/);
+	expect(gateway.healthRequests).toHaveLength(0);
+});
+
+test("alcohol timeout: waits for the breathalyzer, then gives up and returns home", async ({ page }) => {
+	gateway.verifyFace(MATCH);
+	await startCheck(page, "sensor-never-ready");
+
+	await expect(page.getByText("Вы неправильно подули, повторите попытку.")).toBeVisible();
+	await expect(page).toHaveURL(/\/$/);
+	expect(gateway.healthRequests).toHaveLength(0);
+});
+
+test("submission failure: a refused /health shows the toast and a retry that can succeed", async ({ page }) => {
+	gateway.verifyFace(MATCH);
+	gateway.health(400, 200);
+	await startCheck(page, "normal");
+
+	await expect(page.getByText("Не удалось отправить результаты. Попробуйте снова.", { exact: true })).toBeVisible();
+	await expect(page).toHaveURL(/\/health-check$/);
+
+	await page.getByText("Повторить").click();
+	await expect(page).toHaveURL(/\/final-results$/);
+	await expect(page.getByText("Доступ разрешён")).toBeVisible();
+	expect(gateway.healthRequests).toHaveLength(2);
+});
+
+test("submission failure left alone: returns home once the idle timeout passes", async ({ page }) => {
+	gateway.verifyFace(MATCH);
+	gateway.health(400);
+	await startCheck(page, "normal");
+	// Shortened only now so the face identification screen is not reset on the way here
+	await page.evaluate(
+		(sensorTimeout) => localStorage.setItem("kioskSettings", JSON.stringify({ sensorTimeout, idleTimeout: 1 })),
+		SENSOR_TIMEOUT,
+	);
+
+	await expect(page.getByText("Не удалось отправить результаты. Попробуйте снова.", { exact: true })).toBeVisible();
+	await expect(page).toHaveURL(/\/$/);
+	expect(gateway.healthRequests).toHaveLength(1);
+});
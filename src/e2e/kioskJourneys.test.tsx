@@ -0,0 +1,206 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import App from "../App";
+import { setKioskSettings } from "../lib/kioskSettings";
+import { apiClient } from "../lib/services/apiClient";
+import {
+	getRepositories,
+	InMemoryChecksRepository,
+	InMemoryPresenceRepository,
+	setRepositories,
+} from "../lib/services/realtimeRepository";
+import { getScenario } from "../lib/services/sensorSimulator";
+import { startMockGateway, type MockGateway } from "./mockGateway";
+
+// jsdom cannot decode images or run the face detector: every pushed frame counts as well framed, and each one
+// decodes to a slightly different brightness so the liveness burst looks like a live scene
+vi.mock("../lib/faceDetector", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../lib/faceDetector")>()),
+	assessFraming: async () => ({ face: null, issues: [], ready: true }),
+}));
+vi.mock("../lib/imageFrames", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../lib/imageFrames")>()),
+	loadImage: async () => new Image(),
+	loadGrayFrame: async (dataUrl: string, width: number, height = width) => ({
+		width,
+		height,
+		pixels: new Float32Array(width * height).fill(0.5 + (Number(dataUrl.split("-").pop()) % 2) * 0.02),
+	}),
+}));
+
+// Shortened so the timeout journeys run in seconds; the flow is the same as with the 30 s default
+const SENSOR_TIMEOUT = 3;
+const JOURNEY_TIMEOUT = 20000;
+
+const MATCH = { matched: true, faceId: "face-1", liveness: { passed: true } };
+
+const scenario = (name: string) => {
+	const found = getScenario(name);
+	if (!found) throw new Error(`Unknown scenario ${name}`);
+	return found;
+};
+
+const waitForPath = (pathname: string, timeout = 10000) =>
+	waitFor(() => expect(window.location.pathname).toBe(pathname), { timeout });
+
+// framer-motion and react-hot-toast check for reduced motion, which jsdom does not implement
+window.matchMedia ??= (query: string) =>
+	({
+		matches: false,
+		media: query,
+		addListener: () => undefined,
+		removeListener: () => undefined,
+		addEventListener: () => undefined,
+		removeEventListener: () => undefined,
+	}) as unknown as MediaQueryList;
+
+describe("kiosk journeys", () => {
+	const original = getRepositories();
+	let gateway: MockGateway;
+
+	beforeEach(async () => {
+		localStorage.clear();
+		setKioskSettings({ sensorTimeout: SENSOR_TIMEOUT });
+		setRepositories({ checks: new InMemoryChecksRepository(), presence: new InMemoryPresenceRepository() });
+		gateway = await startMockGateway();
+		apiClient.configure({ baseUrl: gateway.url });
+		window.history.replaceState(null, "", "/");
+	});
+
+	afterEach(async () => {
+		cleanup();
+		await gateway.close();
+		setRepositories(original);
+	});
+
+	const openDoor = async () => {
+		render(<App />);
+		fireEvent.click(await screen.findByText("открыть дверь", {}, { timeout: 5000 }));
+		await waitForPath("/face-identification");
+	};
+
+	// Home → face identification → health check, with the sensors replaying the given scenario
+	const startCheck = async (sensors: string) => {
+		await openDoor();
+		await waitForPath("/health-check");
+		await gateway.sensorsConnected();
+		gateway.play(scenario(sensors));
+	};
+
+	it(
+		"success: admits the worker and shows the results",
+		async () => {
+			gateway.verifyFace(MATCH);
+			await startCheck("normal");
+
+			await waitForPath("/final-results");
+			expect(await screen.findByText("Доступ разрешён")).toBeTruthy();
+			expect(gateway.healthRequests).toHaveLength(1);
+			expect(gateway.healthRequests[0]).toMatchObject({
+				faceId: "face-1",
+				alcoholData: { alcoholLevel: "Трезвый" },
+				admission: { verdict: "ALLOW" },
+			});
+		},
+		JOURNEY_TIMEOUT,
+	);
+
+	it(
+		"face not matched three times: shows the error toast and returns home",
+		async () => {
+			gateway.verifyFace({ matched: false });
+			await openDoor();
+
+			expect(await screen.findByText(/Несколько ошибок подряд/, {}, { timeout: 10000 })).toBeTruthy();
+			expect(
+				await screen.findByText(/^Ошибка: Не удалось подтвердить личность/, {}, { timeout: 10000 }),
+			).toBeTruthy();
+			await waitForPath("/");
+			expect(gateway.healthRequests).toHaveLength(0);
+		},
+		JOURNEY_TIMEOUT,
+	);
+
+	it(
+		"match without a liveness verdict: rejected as a failed liveness check",
+		async () => {
+			gateway.verifyFace({ matched: true, faceId: "face-1" });
+			await openDoor();
+
+			expect(await screen.findByText(/живой человек/, {}, { timeout: 10000 })).toBeTruthy();
+			await waitForPath("/");
+			expect(gateway.healthRequests).toHaveLength(0);
+		},
+		JOURNEY_TIMEOUT,
+	);
+
+	it(
+		"temperature timeout: reports the lost sensors, then the timeout, and returns home",
+		async () => {
+			gateway.verifyFace(MATCH);
+			await startCheck("disconnect");
+
+			expect(await screen.findByText("Нет связи с датчиками", {}, { timeout: 5000 })).toBeTruthy();
+			expect(await screen.findByText("Сбой связи с сенсором температуры. Попробуйте снова.", {}, {
+				timeout: 10000,
+			})).toBeTruthy();
+			await waitForPath("/");
+			expect(gateway.healthRequests).toHaveLength(0);
+		},
+		JOURNEY_TIMEOUT,
+	);
+
+	it(
+		"alcohol timeout: waits for the breathalyzer, then gives up and returns home",
+		async () => {
+			gateway.verifyFace(MATCH);
+			await startCheck("sensor-never-ready");
+
+			expect(await screen.findByText("Вы неправильно подули, повторите попытку.", {}, {
+				timeout: 15000,
+			})).toBeTruthy();
+			await waitForPath("/");
+			expect(gateway.healthRequests).toHaveLength(0);
+		},
+		JOURNEY_TIMEOUT,
+	);
+
+	it(
+		"submission failure: a refused /health shows the toast and a retry that can succeed",
+		async () => {
+			gateway.verifyFace(MATCH);
+			gateway.health(400, 200);
+			await startCheck("normal");
+
+			expect(await screen.findByText("Не удалось отправить результаты. Попробуйте снова.", {}, {
+				timeout: 10000,
+			})).toBeTruthy();
+			expect(window.location.pathname).toBe("/health-check");
+
+			fireEvent.click(screen.getByText("Повторить"));
+			await waitForPath("/final-results");
+			expect(await screen.findByText("Доступ разрешён")).toBeTruthy();
+			expect(gateway.healthRequests).toHaveLength(2);
+		},
+		JOURNEY_TIMEOUT,
+	);
+
+	it(
+		"submission failure left alone: returns home once the idle timeout passes",
+		async () => {
+			gateway.verifyFace(MATCH);
+			gateway.health(400);
+			await startCheck("normal");
+			// Shortened only now so the face identification screen is not reset on the way here
+			setKioskSettings({ sensorTimeout: SENSOR_TIMEOUT, idleTimeout: 1 });
+
+			expect(await screen.findByText("Не удалось отправить результаты. Попробуйте снова.", {}, {
+				timeout: 10000,
+			})).toBeTruthy();
+			await waitForPath("/");
+			expect(gateway.healthRequests).toHaveLength(1);
+		},
+		JOURNEY_TIMEOUT,
+	);
+});
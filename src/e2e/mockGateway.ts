@@ -0,0 +1,162 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Server } from "socket.io";
+import type { VerifyFaceResponse } from "../lib/services/faceRecognitionService";
+import type { SensorScenario } from "../lib/services/sensorSimulator";
+
+// How often the fake Pi camera pushes a frame once the kiosk asks for it
+const CAMERA_FRAME_INTERVAL = 50;
+
+export type MockGateway = {
+	url: string;
+	// Answers for the next /api/verify-face calls; the last one repeats
+	verifyFace: (...responses: VerifyFaceResponse[]) => void;
+	// Status codes for the next /health posts; the last one repeats
+	health: (...statuses: number[]) => void;
+	healthRequests: unknown[];
+	// Streams a sensor scenario to every connected socket, like the real gateway relaying its sensors
+	play: (scenario: SensorScenario) => void;
+	// Resolves once a socket other than the camera's is connected
+	sensorsConnected: () => Promise<void>;
+	close: () => Promise<void>;
+};
+
+const readBody = (request: IncomingMessage) =>
+	new Promise<unknown>((resolve) => {
+		let body = "";
+		request.on("data", (chunk) => (body += chunk));
+		request.on("end", () => resolve(body ? JSON.parse(body) : null));
+	});
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+	response.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+	response.end(JSON.stringify(body));
+};
+
+// Stand-in for the kiosk gateway: verify-face and /health over HTTP, Pi camera frames and sensors over socket.io
+export const startMockGateway = async (): Promise<MockGateway> => {
+	let verifyResponses: VerifyFaceResponse[] = [{ matched: false }];
+	let healthStatuses = [200];
+	const healthRequests: unknown[] = [];
+	const timers = new Set<ReturnType<typeof setTimeout>>();
+	let offline = false;
+	let frame = 0;
+
+	const next = <T>(queue: T[]) => (queue.length > 1 ? queue.shift()! : queue[0]);
+
+	const server = createServer(async (request, response) => {
+		if (request.method === "OPTIONS") {
+			response.writeHead(204, {
+				"Access-Control-Allow-Origin": "*",
+				"Access-Control-Allow-Headers": "*",
+				"Access-Control-Allow-Methods": "GET, POST",
+			});
+			response.end();
+			return;
+		}
+		if (request.method === "POST" && request.url === "/api/verify-face") {
+			await readBody(request);
+			sendJson(response, 200, next(verifyResponses));
+			return;
+		}
+		if (request.method === "POST" && request.url === "/health") {
+			healthRequests.push(await readBody(request));
+			const status = next(healthStatuses);
+			sendJson(response, status, status < 400 ? { success: true } : { error: "Rejected" });
+			return;
+		}
+		// The camera source probes the gateway root before opening its socket
+		if (request.method === "GET" && request.url === "/") {
+			sendJson(response, 200, { ok: true });
+			return;
+		}
+		if (!request.url?.startsWith("/socket.io")) sendJson(response, 404, { error: "Not found" });
+	});
+
+	const io = new Server(server, { cors: { origin: "*" } });
+	const cameraSockets = new Set<string>();
+
+	// A dropped gateway refuses reconnects, so the kiosk stays disconnected
+	io.use((_socket, accept) => accept(offline ? new Error("Gateway offline") : undefined));
+
+	io.on("connection", (socket) => {
+		let camera: ReturnType<typeof setInterval> | null = null;
+		const stopCamera = () => {
+			if (camera) clearInterval(camera);
+			camera = null;
+		};
+
+		socket.on("start-camera", () => {
+			cameraSockets.add(socket.id);
+			stopCamera();
+			camera = setInterval(() => {
+				// Each frame is distinct, so the liveness check sees a moving scene
+				socket.emit("camera-frame", { success: true, image: `data:image/jpeg;base64,frame-${frame++}` });
+			}, CAMERA_FRAME_INTERVAL);
+		});
+		socket.on("stop-camera", stopCamera);
+		socket.on("disconnect", () => {
+			stopCamera();
+			cameraSockets.delete(socket.id);
+		});
+	});
+
+	const schedule = (callback: () => void, ms: number) => {
+		const timer = setTimeout(() => {
+			timers.delete(timer);
+			callback();
+		}, ms);
+		timers.add(timer);
+	};
+
+	const play = (scenario: SensorScenario) => {
+		Object.entries(scenario.streams).forEach(([event, stream]) => {
+			const interval = stream.interval ?? scenario.interval ?? 500;
+			let index = 0;
+			const tick = () => {
+				if (offline) return;
+				io.emit(event, stream.samples[Math.min(index, stream.samples.length - 1)]);
+				index++;
+				// The kiosk only listens to the current step's event, so a stream keeps its last sample coming
+				// until the kiosk gets to it, instead of playing once like the per-subscription simulator
+				schedule(tick, interval);
+			};
+			schedule(tick, stream.delay ?? interval);
+		});
+		if (scenario.disconnectAfter !== undefined) {
+			schedule(() => {
+				offline = true;
+				io.disconnectSockets(true);
+			}, scenario.disconnectAfter);
+		}
+	};
+
+	const sensorsConnected = async () => {
+		for (;;) {
+			const sockets = await io.fetchSockets();
+			if (sockets.some((socket) => !cameraSockets.has(socket.id))) return;
+			await new Promise((resolve) => setTimeout(resolve, 20));
+		}
+	};
+
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `http://127.0.0.1:${port}`,
+		verifyFace: (...responses) => {
+			verifyResponses = responses;
+		},
+		health: (...statuses) => {
+			healthStatuses = statuses;
+		},
+		healthRequests,
+		play,
+		sensorsConnected,
+		close: async () => {
+			timers.forEach(clearTimeout);
+			timers.clear();
+			await io.close();
+		},
+	};
+};
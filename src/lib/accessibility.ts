@@ -0,0 +1,47 @@
+import { logger } from "./services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+const STORAGE_KEY = "accessibilityMode";
+// Class on <html> that the Tailwind `a11y:` variant and the root font size key off
+const ROOT_CLASS = "a11y";
+
+type Listener = (enabled: boolean) => void;
+
+// High-contrast, large-type mode; a kiosk setting rather than a per-worker one, so it survives sessions
+class AccessibilityMode {
+	private enabled = localStorage.getItem(STORAGE_KEY) === "true";
+	private listeners = new Set<Listener>();
+
+	constructor() {
+		this.applyToDocument();
+	}
+
+	get() {
+		return this.enabled;
+	}
+
+	set(enabled: boolean) {
+		if (enabled === this.enabled) return;
+		kioskLog.info(`Accessibility mode ${enabled ? "on" : "off"}`);
+		this.enabled = enabled;
+		if (enabled) localStorage.setItem(STORAGE_KEY, "true");
+		else localStorage.removeItem(STORAGE_KEY);
+		this.applyToDocument();
+		this.listeners.forEach((listener) => listener(enabled));
+	}
+
+	subscribe(listener: Listener) {
+		this.listeners.add(listener);
+		listener(this.enabled);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private applyToDocument() {
+		if (typeof document !== "undefined") document.documentElement.classList.toggle(ROOT_CLASS, this.enabled);
+	}
+}
+
+export const accessibilityMode = new AccessibilityMode();
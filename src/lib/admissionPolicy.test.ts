@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { describeReason, evaluateAdmission, DEFAULT_ADMISSION_POLICY } from "./admissionPolicy";
+import { i18n } from "./i18n";
+
+describe("evaluateAdmission", () => {
+	afterEach(() => i18n.reset());
+
+	it("records reason codes with raw values, independent of the worker's language", () => {
+		i18n.set("kk");
+
+		const decision = evaluateAdmission(
+			{ sequence: ["TEMPERATURE", "ALCOHOL"], readings: { TEMPERATURE: 38.2 }, attempt: 4 },
+			DEFAULT_ADMISSION_POLICY,
+		);
+
+		expect(decision.verdict).toBe("DENY");
+		expect(decision.reasons).toEqual([
+			{ code: "missing", steps: ["ALCOHOL"] },
+			{ code: "fever", value: 38.2 },
+			{ code: "attempts", attempt: 4, max: 3 },
+		]);
+	});
+
+	it("admits a worker with normal readings", () => {
+		const decision = evaluateAdmission(
+			{ sequence: ["TEMPERATURE", "ALCOHOL"], readings: { TEMPERATURE: 36.6, ALCOHOL: 0 }, attempt: 1 },
+			DEFAULT_ADMISSION_POLICY,
+		);
+
+		expect(decision).toMatchObject({ verdict: "ALLOW", reasons: [] });
+	});
+});
+
+describe("describeReason", () => {
+	afterEach(() => i18n.reset());
+
+	it("translates a reason into the current language when rendered", () => {
+		const reason = { code: "fever", value: 38.2 } as const;
+
+		i18n.set("ru");
+		expect(describeReason(reason)).toBe("Повышенная температура: 38.2°C");
+		i18n.set("en");
+		expect(describeReason(reason)).toBe("High temperature: 38.2°C");
+	});
+});
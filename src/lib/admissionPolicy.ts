@@ -0,0 +1,163 @@
+import { format } from "date-fns";
+import { classifyAlcohol } from "./alcohol";
+import { getStep, type StepKey, type StepReading } from "./healthSteps";
+import { t } from "./i18n";
+import { storeOverrides } from "./kioskSettings";
+import type { StepReadings } from "./healthCheckMachine";
+
+const POLICY_STORAGE_KEY = "admissionPolicy";
+const ATTEMPTS_STORAGE_KEY = "checkAttempts";
+
+export type Verdict = "ALLOW" | "DENY" | "REVIEW";
+
+export type AdmissionPolicy = {
+	// Readings above this are treated as fever
+	maxTemperature: number;
+	// Readings below this are implausible (cold finger, sensor misplaced)
+	minTemperature: number;
+	requireSober: boolean;
+	// Checks per person per day before a supervisor has to review
+	maxAttempts: number;
+};
+
+export type AdmissionInput = {
+	sequence: StepKey[];
+	readings: StepReadings;
+	attempt: number;
+};
+
+// Stored and sent to the backend as codes with raw values; only the screen turns them into text
+export type AdmissionReason =
+	| { code: "missing"; steps: StepKey[] }
+	| { code: "fever" | "implausibleTemperature"; value: number }
+	| { code: "alcoholFail" | "alcoholWarning"; value: StepReading }
+	| { code: "attempts"; attempt: number; max: number };
+
+export type AdmissionFinding = { verdict: Verdict; reason: AdmissionReason };
+
+export type AdmissionDecision = {
+	verdict: Verdict;
+	reasons: AdmissionReason[];
+	evaluatedAt: number;
+};
+
+export type AdmissionRule = (input: AdmissionInput, policy: AdmissionPolicy) => AdmissionFinding | null;
+
+export const DEFAULT_ADMISSION_POLICY: AdmissionPolicy = {
+	maxTemperature: 37.5,
+	minTemperature: 34,
+	requireSober: true,
+	maxAttempts: 3,
+};
+
+export const getAdmissionPolicy = (): AdmissionPolicy => {
+	try {
+		const stored = JSON.parse(localStorage.getItem(POLICY_STORAGE_KEY) || "null");
+		return { ...DEFAULT_ADMISSION_POLICY, ...stored };
+	} catch {
+		return DEFAULT_ADMISSION_POLICY;
+	}
+};
+
+export const setAdmissionPolicy = (policy: Partial<AdmissionPolicy> | null) =>
+	storeOverrides(POLICY_STORAGE_KEY, policy, DEFAULT_ADMISSION_POLICY);
+
+const missingReadings: AdmissionRule = ({ sequence, readings }) => {
+	const missing = sequence.filter((key) => readings[key] === undefined);
+	if (missing.length === 0) return null;
+	return { verdict: "REVIEW", reason: { code: "missing", steps: missing } };
+};
+
+const fever: AdmissionRule = ({ readings }, policy) => {
+	const temperature = readings.TEMPERATURE;
+	if (typeof temperature !== "number") return null;
+	if (temperature > policy.maxTemperature) {
+		return { verdict: "DENY", reason: { code: "fever", value: temperature } };
+	}
+	if (temperature < policy.minTemperature) {
+		return { verdict: "REVIEW", reason: { code: "implausibleTemperature", value: temperature } };
+	}
+	return null;
+};
+
+const sobriety: AdmissionRule = ({ readings }, policy) => {
+	const alcohol = readings.ALCOHOL;
+	if (!policy.requireSober || alcohol === undefined) return null;
+	switch (classifyAlcohol(alcohol)) {
+		case "fail":
+			return { verdict: "DENY", reason: { code: "alcoholFail", value: alcohol } };
+		case "warning":
+			return { verdict: "REVIEW", reason: { code: "alcoholWarning", value: alcohol } };
+		default:
+			return null;
+	}
+};
+
+const attempts: AdmissionRule = ({ attempt }, policy) =>
+	attempt > policy.maxAttempts
+		? { verdict: "REVIEW", reason: { code: "attempts", attempt, max: policy.maxAttempts } }
+		: null;
+
+// Text for the results screen, in the worker's current language
+export const describeReason = (reason: AdmissionReason): string => {
+	switch (reason.code) {
+		case "missing":
+			return t("admission.missing", {
+				steps: reason.steps.map((key) => getStep(key).label.toLowerCase()).join(", "),
+			});
+		case "fever":
+		case "implausibleTemperature":
+			return t(`admission.${reason.code}`, { value: getStep("TEMPERATURE").format(reason.value) });
+		case "alcoholFail":
+		case "alcoholWarning":
+			return t(`admission.${reason.code}`, { value: getStep("ALCOHOL").format(reason.value) });
+		case "attempts":
+			return t("admission.attempts", { attempt: reason.attempt, max: reason.max });
+	}
+};
+
+export const ADMISSION_RULES: AdmissionRule[] = [missingReadings, fever, sobriety, attempts];
+
+const VERDICT_SEVERITY: Record<Verdict, number> = { ALLOW: 0, REVIEW: 1, DENY: 2 };
+
+// The most severe finding wins; no findings means the worker is admitted
+export const evaluateAdmission = (
+	input: AdmissionInput,
+	policy: AdmissionPolicy = getAdmissionPolicy(),
+	rules: AdmissionRule[] = ADMISSION_RULES,
+): AdmissionDecision => {
+	const findings = rules
+		.map((rule) => rule(input, policy))
+		.filter((finding): finding is AdmissionFinding => finding !== null);
+
+	const verdict = findings.reduce<Verdict>(
+		(worst, { verdict }) => (VERDICT_SEVERITY[verdict] > VERDICT_SEVERITY[worst] ? verdict : worst),
+		"ALLOW",
+	);
+
+	return { verdict, reasons: findings.map(({ reason }) => reason), evaluatedAt: Date.now() };
+};
+
+type AttemptLog = { day: string; counts: Record<string, number> };
+
+const readAttempts = (day: string): AttemptLog => {
+	try {
+		const stored: AttemptLog | null = JSON.parse(localStorage.getItem(ATTEMPTS_STORAGE_KEY) || "null");
+		if (stored?.day === day) return stored;
+	} catch {
+		// Corrupted log: start the day over
+	}
+	return { day, counts: {} };
+};
+
+export const getAttemptCount = (faceId: string) =>
+	readAttempts(format(new Date(), "yyyy-MM-dd")).counts[faceId] ?? 0;
+
+// Counts a new check for this person today and returns the attempt number
+export const registerAttempt = (faceId: string): number => {
+	const log = readAttempts(format(new Date(), "yyyy-MM-dd"));
+	const count = (log.counts[faceId] ?? 0) + 1;
+	log.counts[faceId] = count;
+	localStorage.setItem(ATTEMPTS_STORAGE_KEY, JSON.stringify(log));
+	return count;
+};
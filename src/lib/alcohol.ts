@@ -0,0 +1,57 @@
+import type { StepReading } from "./healthSteps";
+import { storeOverrides } from "./kioskSettings";
+
+const THRESHOLDS_STORAGE_KEY = "alcoholThresholds";
+
+export type AlcoholClass = "normal" | "warning" | "fail";
+
+// Breath alcohol concentration bands in mg per litre of exhaled air
+export type AlcoholThresholds = {
+	warning: number;
+	fail: number;
+};
+
+export const DEFAULT_ALCOHOL_THRESHOLDS: AlcoholThresholds = {
+	warning: 0.05,
+	fail: 0.16,
+};
+
+// Legacy binary labels the backend stores in alcoholLevel
+export const ALCOHOL_LABELS: Record<Exclude<AlcoholClass, "warning">, string> = {
+	normal: "Трезвый",
+	fail: "Пьяный",
+};
+
+const fromEnv = (): Partial<AlcoholThresholds> => {
+	const warning = Number(import.meta.env.VITE_ALCOHOL_WARNING_MGL);
+	const fail = Number(import.meta.env.VITE_ALCOHOL_FAIL_MGL);
+	return {
+		...(warning > 0 ? { warning } : {}),
+		...(fail > 0 ? { fail } : {}),
+	};
+};
+
+// Site override order: localStorage, then VITE_ALCOHOL_*_MGL, then the defaults
+export const getAlcoholThresholds = (): AlcoholThresholds => {
+	let stored: Partial<AlcoholThresholds> = {};
+	try {
+		stored = JSON.parse(localStorage.getItem(THRESHOLDS_STORAGE_KEY) || "{}");
+	} catch {
+		// Ignore a corrupted override
+	}
+	return { ...DEFAULT_ALCOHOL_THRESHOLDS, ...fromEnv(), ...stored };
+};
+
+export const setAlcoholThresholds = (thresholds: Partial<AlcoholThresholds> | null) =>
+	storeOverrides(THRESHOLDS_STORAGE_KEY, thresholds, { ...DEFAULT_ALCOHOL_THRESHOLDS, ...fromEnv() });
+
+// Numeric readings are banded; legacy sensors only report "normal"/"abnormal"
+export const classifyAlcohol = (
+	reading: StepReading,
+	thresholds: AlcoholThresholds = getAlcoholThresholds(),
+): AlcoholClass => {
+	if (typeof reading === "string") return reading === "normal" ? "normal" : "fail";
+	if (reading >= thresholds.fail) return "fail";
+	if (reading >= thresholds.warning) return "warning";
+	return "normal";
+};
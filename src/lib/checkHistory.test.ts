@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadCheckHistory, summarizeHistory, toCsv } from "./checkHistory";
+import type { Verdict } from "./admissionPolicy";
+import { i18n } from "./i18n";
+import {
+	getRepositories,
+	InMemoryChecksRepository,
+	setRepositories,
+	type CheckRecord,
+} from "./services/realtimeRepository";
+
+const day = (date: string, time = "08:00") => new Date(`${date}T${time}:00`).getTime();
+
+const record = (id: string, faceId: string, createdAt: number, verdict: Verdict = "ALLOW"): CheckRecord => ({
+	id,
+	faceId,
+	employee: null,
+	sequence: ["TEMPERATURE", "ALCOHOL"],
+	readings: { TEMPERATURE: 36.6, ALCOHOL: 0 },
+	createdAt,
+	admission: { verdict, reasons: [], evaluatedAt: createdAt },
+});
+
+describe("loadCheckHistory", () => {
+	const original = getRepositories();
+	let checks: InMemoryChecksRepository;
+
+	beforeEach(() => {
+		checks = new InMemoryChecksRepository();
+		setRepositories({ checks });
+	});
+
+	afterEach(() => setRepositories(original));
+
+	it("returns the saved checks of each day in the range, oldest first", async () => {
+		await checks.save(record("b", "worker-2", day("2025-03-02", "09:00")));
+		await checks.save(record("a", "worker-1", day("2025-03-01")));
+		await checks.save(record("outside", "worker-1", day("2025-03-05")));
+
+		const entries = await loadCheckHistory({
+			from: new Date(day("2025-03-01")),
+			to: new Date(day("2025-03-03")),
+			verdict: "all",
+		});
+
+		expect(entries.map((entry) => entry.id)).toEqual(["a", "b"]);
+		expect(entries.every((entry) => !entry.pendingUpload)).toBe(true);
+	});
+
+	it("numbers repeated checks of the same worker within a day as retries", async () => {
+		await checks.save(record("first", "worker-1", day("2025-03-01", "07:00"), "DENY"));
+		await checks.save(record("second", "worker-1", day("2025-03-01", "07:05")));
+		await checks.save(record("next-day", "worker-1", day("2025-03-02", "07:00")));
+
+		const entries = await loadCheckHistory({
+			from: new Date(day("2025-03-01")),
+			to: new Date(day("2025-03-02")),
+			verdict: "all",
+		});
+
+		expect(entries.map((entry) => entry.attempt)).toEqual([1, 2, 1]);
+		expect(summarizeHistory(entries)).toEqual({ total: 3, passed: 2, failed: 1, review: 0, retried: 1 });
+	});
+
+	it("filters by verdict after attempts are counted", async () => {
+		await checks.save(record("denied", "worker-1", day("2025-03-01", "07:00"), "DENY"));
+		await checks.save(record("allowed", "worker-1", day("2025-03-01", "07:05")));
+
+		const entries = await loadCheckHistory({
+			from: new Date(day("2025-03-01")),
+			to: new Date(day("2025-03-01")),
+			verdict: "ALLOW",
+		});
+
+		expect(entries).toHaveLength(1);
+		expect(entries[0]).toMatchObject({ id: "allowed", attempt: 2 });
+	});
+});
+
+describe("toCsv", () => {
+	// The data row of a one-check export whose worker has the given name
+	const row = (name: string) => {
+		const employee = { employeeId: "e1", name };
+		const entry = { ...record("a", "worker-1", day("2025-03-01")), employee, attempt: 1, pendingUpload: false };
+		return toCsv([entry]).split("\r\n")[1];
+	};
+
+	it.each(["=1+1", "+1", "-1", "@SUM(A1)"])("keeps %s from running as a formula", (name) => {
+		expect(row(name)).toContain(`;'${name};`);
+	});
+
+	it("writes the header and verdicts in the kiosk language", () => {
+		const entry = { ...record("a", "worker-1", day("2025-03-01")), attempt: 1, pendingUpload: false };
+		i18n.set("en");
+		try {
+			const [header, row] = toCsv([entry]).replace("\uFEFF", "").split("\r\n");
+			expect(header).toBe("Time;Employee;Temperature;Alcohol;Verdict;Attempt;Sent");
+			expect(row).toContain(";Admitted;1;Yes");
+		} finally {
+			i18n.reset();
+		}
+	});
+
+	it("quotes values with carriage returns, quotes or separators", () => {
+		expect(row("Иван\rПетров")).toContain(';"Иван\rПетров";');
+		expect(row('Иван "Ваня"; Петров')).toContain(';"Иван ""Ваня""; Петров";');
+		expect(row("Иван Петров")).toContain(";Иван Петров;");
+	});
+});
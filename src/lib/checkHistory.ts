@@ -0,0 +1,160 @@
+import { eachDayOfInterval, endOfDay, format, startOfDay } from "date-fns";
+import type { AdmissionDecision, Verdict } from "./admissionPolicy";
+import { getStep, isStepKey, type StepKey } from "./healthSteps";
+import { t, type MessageKey } from "./i18n";
+import { healthOutbox, type OutboxEntry } from "./services/healthOutbox";
+import { dayKey, getRepositories, type CheckRecord } from "./services/realtimeRepository";
+import type { EmployeeProfile } from "./services/faceRecognitionService";
+
+// Longest range a single report may cover, to keep backend reads bounded
+export const MAX_HISTORY_DAYS = 31;
+
+export type HistoryEntry = CheckRecord & {
+	// Still waiting in the outbox for the backend to accept it
+	pendingUpload: boolean;
+	// 1 for the person's first check of the day, 2+ for retries
+	attempt: number;
+};
+
+export type HistoryFilter = {
+	from: Date;
+	to: Date;
+	verdict: Verdict | "all";
+};
+
+export type HistorySummary = {
+	total: number;
+	passed: number;
+	failed: number;
+	review: number;
+	retried: number;
+};
+
+export const VERDICT_LABELS: Record<Verdict, MessageKey> = {
+	ALLOW: "history.verdict.ALLOW",
+	DENY: "history.verdict.DENY",
+	REVIEW: "history.verdict.REVIEW",
+};
+
+// Outbox entries carry the full POST body; rebuild a record for checks that never reached the repository
+const fromOutbox = (entry: OutboxEntry): CheckRecord => ({
+	id: entry.idempotencyKey,
+	faceId: entry.faceId,
+	employee: (entry.payload.employee as EmployeeProfile | undefined) ?? null,
+	sequence: Object.keys(entry.readings).filter(isStepKey),
+	readings: entry.readings,
+	createdAt: entry.createdAt,
+	admission: (entry.payload.admission as AdmissionDecision | undefined) ?? {
+		verdict: "REVIEW",
+		reasons: [],
+		evaluatedAt: entry.createdAt,
+	},
+});
+
+const withAttempts = (records: CheckRecord[], pending: Set<string>): HistoryEntry[] => {
+	const seen = new Map<string, number>();
+	return records
+		.sort((a, b) => a.createdAt - b.createdAt)
+		.map((record) => {
+			const key = `${dayKey(new Date(record.createdAt))}:${record.faceId}`;
+			const attempt = (seen.get(key) ?? 0) + 1;
+			seen.set(key, attempt);
+			return { ...record, attempt, pendingUpload: pending.has(record.id) };
+		});
+};
+
+// Repository records for the range, merged with anything still queued in the local outbox
+export const loadCheckHistory = async ({ from, to, verdict }: HistoryFilter): Promise<HistoryEntry[]> => {
+	const days = eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) }).slice(0, MAX_HISTORY_DAYS);
+	const stored = (await Promise.all(days.map((day) => getRepositories().checks.listByDay(day)))).flat();
+	const queued = (await healthOutbox.getEntries().catch(() => [])).filter(
+		(entry) => entry.createdAt >= startOfDay(from).getTime() && entry.createdAt <= endOfDay(to).getTime(),
+	);
+
+	const records = new Map(stored.map((record) => [record.id, record]));
+	queued.forEach((entry) => {
+		if (!records.has(entry.idempotencyKey)) records.set(entry.idempotencyKey, fromOutbox(entry));
+	});
+
+	const entries = withAttempts([...records.values()], new Set(queued.map((entry) => entry.idempotencyKey)));
+	return verdict === "all" ? entries : entries.filter((entry) => entry.admission.verdict === verdict);
+};
+
+export const summarizeHistory = (entries: HistoryEntry[]): HistorySummary => ({
+	total: entries.length,
+	passed: entries.filter((entry) => entry.admission.verdict === "ALLOW").length,
+	failed: entries.filter((entry) => entry.admission.verdict === "DENY").length,
+	review: entries.filter((entry) => entry.admission.verdict === "REVIEW").length,
+	retried: entries.filter((entry) => entry.attempt > 1).length,
+});
+
+const formatReading = (entry: HistoryEntry, key: StepKey) => {
+	const value = entry.readings[key];
+	if (value === undefined) return "—";
+	const step = getStep(key);
+	return step.describe ? `${step.format(value)} (${step.describe(value).label})` : step.format(value);
+};
+
+// Titles are message keys so the table, CSV and printed report follow the kiosk language
+export const HISTORY_COLUMNS: { title: MessageKey; value: (entry: HistoryEntry) => string }[] = [
+	{ title: "history.column.time", value: (entry) => format(entry.createdAt, "dd.MM.yyyy HH:mm") },
+	{ title: "history.column.employee", value: (entry) => entry.employee?.name ?? entry.faceId },
+	{ title: "history.column.temperature", value: (entry) => formatReading(entry, "TEMPERATURE") },
+	{ title: "history.column.alcohol", value: (entry) => formatReading(entry, "ALCOHOL") },
+	{ title: "history.column.verdict", value: (entry) => t(VERDICT_LABELS[entry.admission.verdict]) },
+	{ title: "history.column.attempt", value: (entry) => String(entry.attempt) },
+	{ title: "history.column.sent", value: (entry) => t(entry.pendingUpload ? "history.no" : "history.yes") },
+];
+
+// A leading =, +, - or @ makes spreadsheets run the cell as a formula, so such values (e.g. a name from the
+// backend) are prefixed with an apostrophe to stay plain text
+const escapeCsv = (raw: string) => {
+	const value = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+	return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Semicolon-separated with a BOM, so Excel with a Russian locale opens it without an import wizard
+export const toCsv = (entries: HistoryEntry[]) =>
+	"\uFEFF" +
+	[HISTORY_COLUMNS.map(({ title }) => t(title)), ...entries.map((entry) => HISTORY_COLUMNS.map(({ value }) => value(entry)))]
+		.map((row) => row.map(escapeCsv).join(";"))
+		.join("\r\n");
+
+export const downloadCsv = (entries: HistoryEntry[], fileName: string) => {
+	const url = URL.createObjectURL(new Blob([toCsv(entries)], { type: "text/csv;charset=utf-8" }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+};
+
+const escapeHtml = (value: string) =>
+	value.replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char] ?? char);
+
+// Opens the browser print dialog on a plain report; "Save as PDF" gives the PDF export without a PDF library
+export const printReport = (entries: HistoryEntry[], title: string) => {
+	const summary = summarizeHistory(entries);
+	const summaryLine = (["total", "passed", "failed", "review", "retried"] as const)
+		.map((key) => `${t(`history.summary.${key}`)}: ${summary[key]}`)
+		.join(" · ");
+	const frame = document.createElement("iframe");
+	frame.style.display = "none";
+	document.body.appendChild(frame);
+	const doc = frame.contentDocument;
+	if (!doc || !frame.contentWindow) {
+		frame.remove();
+		return;
+	}
+
+	doc.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>body{font-family:sans-serif;font-size:12px}table{border-collapse:collapse;width:100%}th,td{border:1px solid #999;padding:4px;text-align:left}</style>
+</head><body><h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(summaryLine)}</p>
+<table><thead><tr>${HISTORY_COLUMNS.map(({ title }) => `<th>${escapeHtml(t(title))}</th>`).join("")}</tr></thead><tbody>
+${entries.map((entry) => `<tr>${HISTORY_COLUMNS.map(({ value }) => `<td>${escapeHtml(value(entry))}</td>`).join("")}</tr>`).join("\n")}
+</tbody></table></body></html>`);
+	doc.close();
+	frame.contentWindow.addEventListener("afterprint", () => frame.remove());
+	frame.contentWindow.print();
+};
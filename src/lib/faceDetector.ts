@@ -0,0 +1,85 @@
+import manifestUrl from "@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json?url";
+import weightsUrl from "@vladmandic/face-api/model/tiny_face_detector_model.bin?url";
+import {
+	createNativeFaceLocator,
+	framingIssues,
+	measureBrightness,
+	type FaceBox,
+	type FaceLocator,
+	type QualityIssue,
+} from "./frameQuality";
+import { loadImage, toGrayFrame } from "./imageFrames";
+import { logger } from "./services/logger";
+
+type FaceApi = typeof import("@vladmandic/face-api");
+type WeightsManifest = { weights: Parameters<FaceApi["tf"]["io"]["decodeWeights"]>[1] }[];
+
+export type DetectableFrame = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+export type FramingGuidance = {
+	face: FaceBox | null;
+	issues: QualityIssue[];
+	// A face is present, centred, close enough and lit well enough to send to the server
+	ready: boolean;
+};
+
+// Small input keeps detection under ~50 ms on the kiosk CPU
+const DETECTOR_INPUT_SIZE = 224;
+const DETECTOR_SCORE_THRESHOLD = 0.5;
+const BRIGHTNESS_WIDTH = 64;
+const BRIGHTNESS_HEIGHT = 48;
+
+const faceLog = logger.category("face");
+
+let detectorPromise: Promise<FaceApi | null> | null = null;
+
+// Loads the bundled tiny face detector once, without network access beyond the app itself; null if it cannot run here
+export const loadFaceDetector = () => {
+	detectorPromise ??= (async () => {
+		try {
+			const faceapi = await import("@vladmandic/face-api");
+			const [manifest, weights] = await Promise.all([
+				fetch(manifestUrl).then((response) => response.json() as Promise<WeightsManifest>),
+				fetch(weightsUrl).then((response) => response.arrayBuffer()),
+			]);
+			faceapi.nets.tinyFaceDetector.loadFromWeightMap(faceapi.tf.io.decodeWeights(weights, manifest[0].weights));
+			faceLog.info("Face detector ready");
+			return faceapi;
+		} catch (err) {
+			faceLog.error("Face detector unavailable", err);
+			return null;
+		}
+	})();
+	return detectorPromise;
+};
+
+// Largest face normalised to 0..1, null if none is found, undefined if the detector is unavailable
+export const detectFace = async (source: DetectableFrame): Promise<FaceBox | null | undefined> => {
+	const faceapi = await loadFaceDetector();
+	if (!faceapi) return undefined;
+
+	const detection = await faceapi.detectSingleFace(
+		source,
+		new faceapi.TinyFaceDetectorOptions({
+			inputSize: DETECTOR_INPUT_SIZE,
+			scoreThreshold: DETECTOR_SCORE_THRESHOLD,
+		}),
+	);
+	if (!detection) return null;
+	const { x, y, width, height } = detection.relativeBox;
+	return { x, y, width, height };
+};
+
+// Lighting and face placement for a live frame; never ready when the detector failed to load
+export const assessFraming = async (source: DetectableFrame): Promise<FramingGuidance> => {
+	const brightness = measureBrightness(toGrayFrame(source, BRIGHTNESS_WIDTH, BRIGHTNESS_HEIGHT));
+	const face = await detectFace(source);
+	const issues = framingIssues(brightness, face);
+	return { face: face ?? null, issues, ready: issues.length === 0 };
+};
+
+// On-device locator for JPEG data URLs, falling back to the browser's native detector
+export const createFaceLocator = async (): Promise<FaceLocator | undefined> => {
+	if (!(await loadFaceDetector())) return createNativeFaceLocator();
+	return async (dataUrl) => (await detectFace(await loadImage(dataUrl))) ?? null;
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { framingIssues } from "./frameQuality";
+
+const CENTRED = { x: 0.3, y: 0.25, width: 0.4, height: 0.5 };
+
+describe("framingIssues", () => {
+	it("passes a well lit, centred face", () => {
+		expect(framingIssues(0.5, CENTRED)).toEqual([]);
+	});
+
+	it("reports a missing face", () => {
+		expect(framingIssues(0.5, null)).toEqual(["noFace"]);
+	});
+
+	it("fails every frame when no detector is available", () => {
+		expect(framingIssues(0.5, undefined)).toEqual(["detectorUnavailable"]);
+		expect(framingIssues(0.1)).toEqual(["detectorUnavailable", "dark"]);
+	});
+});
@@ -0,0 +1,121 @@
+import { loadGrayFrame, type GrayFrame } from "./imageFrames";
+import type { MessageKey } from "./i18n";
+
+const ANALYSIS_WIDTH = 96;
+const ANALYSIS_HEIGHT = 72;
+
+export const QUALITY_LIMITS = {
+	minBrightness: 0.25,
+	maxBrightness: 0.9,
+	// Variance of the Laplacian; lower means a blurrier frame
+	minSharpness: 0.0015,
+	// Face centre may drift this far from the frame centre, as a fraction of the frame size
+	maxCentreOffset: 0.15,
+	minFaceWidth: 0.25,
+};
+
+export type QualityIssue =
+	| "dark"
+	| "overexposed"
+	| "blurry"
+	| "offCentre"
+	| "tooFar"
+	| "noFace"
+	// No face detector could be loaded, so placement cannot be checked and no frame may pass
+	| "detectorUnavailable";
+
+export const QUALITY_HINTS: Record<QualityIssue, MessageKey> = {
+	dark: "quality.dark",
+	overexposed: "quality.overexposed",
+	blurry: "quality.blurry",
+	offCentre: "quality.offCentre",
+	tooFar: "quality.tooFar",
+	noFace: "quality.noFace",
+	detectorUnavailable: "quality.detectorUnavailable",
+};
+
+export type FaceBox = { x: number; y: number; width: number; height: number };
+
+export type FrameQuality = {
+	brightness: number;
+	sharpness: number;
+	// Normalised to the frame size (0..1); null when no face locator is available
+	face: FaceBox | null;
+	issues: QualityIssue[];
+	passed: boolean;
+};
+
+// Locates the largest face in a frame, normalised to 0..1; resolves null if no face is found
+export type FaceLocator = (dataUrl: string) => Promise<FaceBox | null>;
+
+export const measureBrightness = ({ pixels }: GrayFrame) => pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+
+const measureSharpness = ({ pixels, width, height }: GrayFrame) => {
+	const responses: number[] = [];
+	for (let y = 1; y < height - 1; y++) {
+		for (let x = 1; x < width - 1; x++) {
+			const i = y * width + x;
+			responses.push(pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i]);
+		}
+	}
+	const mean = responses.reduce((sum, value) => sum + value, 0) / responses.length;
+	return responses.reduce((sum, value) => sum + (value - mean) ** 2, 0) / responses.length;
+};
+
+// Lighting and placement problems; pass `undefined` for the face when no detector is available, which fails the frame
+export const framingIssues = (brightness: number, face?: FaceBox | null): QualityIssue[] => {
+	const issues: QualityIssue[] = [];
+	if (face === undefined) issues.push("detectorUnavailable");
+	if (brightness < QUALITY_LIMITS.minBrightness) issues.push("dark");
+	if (brightness > QUALITY_LIMITS.maxBrightness) issues.push("overexposed");
+	if (face === null) {
+		issues.push("noFace");
+	} else if (face) {
+		const offsetX = Math.abs(face.x + face.width / 2 - 0.5);
+		const offsetY = Math.abs(face.y + face.height / 2 - 0.5);
+		if (Math.max(offsetX, offsetY) > QUALITY_LIMITS.maxCentreOffset) issues.push("offCentre");
+		if (face.width < QUALITY_LIMITS.minFaceWidth) issues.push("tooFar");
+	}
+	return issues;
+};
+
+export const assessFrameQuality = async (dataUrl: string, locateFace?: FaceLocator): Promise<FrameQuality> => {
+	const frame = await loadGrayFrame(dataUrl, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+	const brightness = measureBrightness(frame);
+	const sharpness = measureSharpness(frame);
+	const face = locateFace ? await locateFace(dataUrl) : null;
+	const issues = framingIssues(brightness, locateFace ? face : undefined);
+	if (sharpness < QUALITY_LIMITS.minSharpness) issues.push("blurry");
+
+	return { brightness, sharpness, face, issues, passed: issues.length === 0 };
+};
+
+type NativeFaceDetector = {
+	detect: (image: ImageBitmapSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>;
+};
+
+type NativeFaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => NativeFaceDetector;
+
+// Chromium's Shape Detection API where the kiosk browser exposes it; undefined elsewhere
+export const createNativeFaceLocator = (): FaceLocator | undefined => {
+	const FaceDetector = (window as unknown as { FaceDetector?: NativeFaceDetectorConstructor }).FaceDetector;
+	if (!FaceDetector) return undefined;
+	const detector = new FaceDetector({ fastMode: true, maxDetectedFaces: 1 });
+
+	return async (dataUrl) => {
+		const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+		try {
+			const [face] = await detector.detect(bitmap);
+			if (!face) return null;
+			const { x, y, width, height } = face.boundingBox;
+			return {
+				x: x / bitmap.width,
+				y: y / bitmap.height,
+				width: width / bitmap.width,
+				height: height / bitmap.height,
+			};
+		} finally {
+			bitmap.close();
+		}
+	};
+};
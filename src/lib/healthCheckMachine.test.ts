@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	createHealthCheckRunner,
+	getProgress,
+	STABLE_HOLD_MS,
+	type HealthCheckRunner,
+	type MachineEffect,
+} from "./healthCheckMachine";
+import { resolveSteps, type StepKey } from "./healthSteps";
+import { setKioskSettings } from "./kioskSettings";
+import { createFakeClock } from "./testing/fakeClock";
+
+const SENSOR_TIMEOUT = 30000;
+
+const setup = (sequence: StepKey[]) => {
+	const clock = createFakeClock();
+	const effects: MachineEffect[] = [];
+	const runner = createHealthCheckRunner({ sequence, steps: resolveSteps(), clock, onEffect: (effect) => effects.push(effect) });
+	runner.start();
+	const effectTypes = () => effects.map((effect) => effect.type);
+	return { clock, runner, effects, effectTypes };
+};
+
+const settleTemperature = (runner: HealthCheckRunner) =>
+	[36.6, 36.6, 36.6, 36.6, 36.6].forEach((temperature) => runner.sensorData({ temperature }));
+
+describe("createHealthCheckRunner", () => {
+	beforeEach(() => localStorage.clear());
+
+	it("times out a step that receives no data", () => {
+		const { clock, runner, effectTypes } = setup(["TEMPERATURE"]);
+
+		clock.advance(SENSOR_TIMEOUT - 1);
+		expect(runner.getState().status).toBe("waiting");
+
+		clock.advance(1);
+		expect(runner.getState().status).toBe("timedOut");
+		expect(effectTypes()).toEqual(["listen", "stopListening", "timedOut"]);
+		expect(clock.pending()).toBe(0);
+	});
+
+	it("restarts the timeout on every accepted sample", () => {
+		const { clock, runner } = setup(["TEMPERATURE"]);
+
+		clock.advance(SENSOR_TIMEOUT - 1000);
+		runner.sensorData({ temperature: 36.1 });
+		clock.advance(SENSOR_TIMEOUT - 1000);
+
+		expect(runner.getState().status).toBe("measuring");
+	});
+
+	it("holds a stable step, then moves on to the next one", () => {
+		const { clock, runner, effects } = setup(["TEMPERATURE", "ALCOHOL"]);
+
+		settleTemperature(runner);
+		expect(runner.getState().status).toBe("stable");
+		expect(getProgress(runner.getState())).toBe(100);
+
+		clock.advance(STABLE_HOLD_MS);
+		expect(runner.getState().status).toBe("waiting");
+		expect(runner.getState().context.readings.TEMPERATURE).toBe(36.6);
+		expect(effects.filter((effect) => effect.type === "listen")).toEqual([
+			{ type: "listen", step: "TEMPERATURE" },
+			{ type: "listen", step: "ALCOHOL" },
+		]);
+	});
+
+	it("ignores breathalyzer readings until the sensor reports ready", () => {
+		const { clock, runner } = setup(["ALCOHOL"]);
+
+		runner.sensorData({ alcoholValue: 0 });
+		expect(runner.getState().status).toBe("waiting");
+
+		runner.sensorData({ sensorReady: true });
+		runner.sensorData({ alcoholValue: 0.05 });
+		expect(runner.getState().status).toBe("stable");
+
+		clock.advance(STABLE_HOLD_MS);
+		expect(runner.getState().status).toBe("submitting");
+	});
+
+	it("starts the breathalyzer timeout once the sensor reports ready", () => {
+		const { clock, runner } = setup(["ALCOHOL"]);
+
+		clock.advance(20000);
+		runner.sensorData({ sensorReady: true });
+		expect(runner.getState().context.stepStartedAt).toBe(20000);
+
+		clock.advance(SENSOR_TIMEOUT - 1);
+		expect(runner.getState().status).toBe("waiting");
+
+		clock.advance(1);
+		expect(runner.getState().status).toBe("timedOut");
+	});
+
+	it("submits the readings, and retries after a failed submission", () => {
+		const { clock, runner, effects } = setup(["ALCOHOL"]);
+		runner.sensorData({ sensorReady: true });
+		runner.sensorData({ alcoholValue: 0 });
+		clock.advance(STABLE_HOLD_MS);
+
+		expect(effects.at(-1)).toEqual({ type: "submit", readings: { ALCOHOL: 0 } });
+
+		runner.submitFailed("Network error");
+		expect(runner.getState().status).toBe("failed");
+		expect(runner.getState().context.error).toBe("Network error");
+		expect(effects.at(-1)).toEqual({ type: "submitFailed", error: "Network error" });
+
+		runner.retry();
+		expect(runner.getState().status).toBe("submitting");
+		expect(runner.getState().context.error).toBeNull();
+		expect(effects.at(-1)).toEqual({ type: "submit", readings: { ALCOHOL: 0 } });
+
+		runner.submitSucceeded();
+		expect(runner.getState().status).toBe("submitted");
+		expect(effects.at(-1)).toEqual({ type: "submitted", readings: { ALCOHOL: 0 } });
+	});
+
+	it("ignores sensor data that arrives after a timeout", () => {
+		const { clock, runner, effects } = setup(["TEMPERATURE"]);
+		runner.sensorData({ temperature: 36.2 });
+		runner.sensorData({ temperature: 36.4 });
+		clock.advance(SENSOR_TIMEOUT);
+
+		const timedOut = runner.getState();
+		const effectCount = effects.length;
+		settleTemperature(runner);
+		clock.advance(STABLE_HOLD_MS);
+
+		expect(runner.getState()).toBe(timedOut);
+		expect(effects).toHaveLength(effectCount);
+	});
+
+	it("keeps the progress reached before a timeout instead of filling the ring", () => {
+		const { clock, runner } = setup(["TEMPERATURE"]);
+		runner.sensorData({ temperature: 36.2 });
+		runner.sensorData({ temperature: 36.4 });
+		const progress = getProgress(runner.getState());
+
+		clock.advance(SENSOR_TIMEOUT);
+
+		expect(runner.getState().status).toBe("timedOut");
+		expect(getProgress(runner.getState())).toBe(progress);
+		expect(progress).toBeLessThan(100);
+	});
+
+	it("stops reacting once stopped", () => {
+		const { clock, runner } = setup(["TEMPERATURE"]);
+
+		runner.stop();
+		clock.advance(SENSOR_TIMEOUT);
+
+		expect(runner.getState().status).toBe("waiting");
+		expect(clock.pending()).toBe(0);
+	});
+
+	it("keeps the step definitions it started with when settings change mid-check", () => {
+		const { clock, runner } = setup(["TEMPERATURE"]);
+
+		setKioskSettings({ sensorTimeout: 5 });
+		runner.sensorData({ temperature: 36.1 });
+		clock.advance(SENSOR_TIMEOUT - 1);
+
+		expect(runner.getState().status).toBe("measuring");
+	});
+});
@@ -0,0 +1,318 @@
+import type { SensorData, StepDefinitions, StepKey, StepReading } from "./healthSteps";
+import { analyzeSample, EMPTY_TRACK, type StabilityTrack } from "./stabilityAnalyzer";
+
+// How long a stable step stays on screen (full ring) before the machine moves on
+export const STABLE_HOLD_MS = 500;
+
+export type StepReadings = Partial<Record<StepKey, StepReading>>;
+
+export type MachineStatus =
+	| "waiting"
+	| "measuring"
+	| "stable"
+	| "timedOut"
+	| "submitting"
+	| "submitted"
+	| "failed";
+
+export type MachineContext = {
+	sequence: StepKey[];
+	stepIndex: number;
+	samples: number;
+	track: StabilityTrack;
+	// 0..100 for the current step
+	progress: number;
+	readings: StepReadings;
+	sensorReady: boolean;
+	startedAt: number;
+	stepStartedAt: number;
+	error: string | null;
+};
+
+export type MachineState = {
+	status: MachineStatus;
+	context: MachineContext;
+};
+
+export type MachineEvent =
+	| { type: "SENSOR_DATA"; data: SensorData; at: number }
+	| { type: "TIMEOUT"; step: StepKey; at: number }
+	| { type: "ADVANCE"; at: number }
+	| { type: "SUBMIT_SUCCEEDED"; at: number }
+	| { type: "SUBMIT_FAILED"; error: string; at: number }
+	| { type: "RETRY"; at: number };
+
+export type MachineEffect =
+	// Timers are owned by the runner so tests can drive them with a fake clock
+	| { type: "startTimer"; step: StepKey; ms: number }
+	| { type: "scheduleAdvance"; ms: number }
+	| { type: "cancelTimers" }
+	// Everything below is forwarded to the host (React hook, test harness)
+	| { type: "listen"; step: StepKey }
+	| { type: "stopListening" }
+	| { type: "timedOut"; step: StepKey }
+	| { type: "submit"; readings: StepReadings }
+	| { type: "submitted"; readings: StepReadings }
+	| { type: "submitFailed"; error: string };
+
+export type Transition = {
+	state: MachineState;
+	effects: MachineEffect[];
+};
+
+export const currentStep = (state: MachineState): StepKey =>
+	state.context.sequence[state.context.stepIndex];
+
+// The ring is only full once a step really settled; a timeout or failed submission keeps what was reached
+export const getProgress = (state: MachineState): number =>
+	state.status === "stable" || state.status === "submitting" || state.status === "submitted"
+		? 100
+		: state.context.progress;
+
+const enterStep = (context: MachineContext, steps: StepDefinitions, stepIndex: number, at: number): Transition => {
+	const key = context.sequence[stepIndex];
+	return {
+		state: {
+			status: "waiting",
+			context: { ...context, stepIndex, samples: 0, track: EMPTY_TRACK, progress: 0, stepStartedAt: at },
+		},
+		effects: [
+			{ type: "cancelTimers" },
+			{ type: "listen", step: key },
+			{ type: "startTimer", step: key, ms: steps[key].timeout },
+		],
+	};
+};
+
+const startSubmitting = (context: MachineContext): Transition => ({
+	state: { status: "submitting", context: { ...context, error: null } },
+	effects: [
+		{ type: "cancelTimers" },
+		{ type: "stopListening" },
+		{ type: "submit", readings: context.readings },
+	],
+});
+
+export const createInitialTransition = (sequence: StepKey[], steps: StepDefinitions, at: number): Transition => {
+	if (sequence.length === 0) throw new Error("Health check sequence is empty");
+	return enterStep(
+		{
+			sequence,
+			stepIndex: 0,
+			samples: 0,
+			track: EMPTY_TRACK,
+			progress: 0,
+			readings: {},
+			sensorReady: false,
+			startedAt: at,
+			stepStartedAt: at,
+			error: null,
+		},
+		steps,
+		0,
+		at,
+	);
+};
+
+const handleSensorData = (state: MachineState, steps: StepDefinitions, data: SensorData, at: number): Transition => {
+	const unchanged: Transition = { state, effects: [] };
+	if (state.status !== "waiting" && state.status !== "measuring") return unchanged;
+	if (!data) return unchanged;
+
+	let context = state.context;
+	let effects: MachineEffect[] = [];
+	const key = currentStep(state);
+	const step = steps[key];
+
+	// sensorReady latches: once true it stays true for the whole session
+	if (data.sensorReady === true && !context.sensorReady) {
+		context = { ...context, sensorReady: true };
+		// A step that waits for the sensor gives the worker its full timeout from the moment it is ready,
+		// as the on-screen countdown does
+		if (step.requiresSensorReady) {
+			context = { ...context, stepStartedAt: at };
+			effects = [{ type: "startTimer", step: key, ms: step.timeout }];
+		}
+	}
+
+	const value = step.requiresSensorReady && !context.sensorReady ? null : step.parse(data);
+
+	if (value === null) {
+		return context === state.context ? unchanged : { state: { ...state, context }, effects };
+	}
+
+	const analysis = analyzeSample(step.stability, context.track, value);
+	context = { ...context, track: analysis.track, progress: analysis.progress * 100 };
+
+	if (!analysis.accepted) {
+		// Rejected samples keep the ring honest but do not count as sensor activity
+		return { state: { ...state, context }, effects };
+	}
+
+	context = {
+		...context,
+		samples: analysis.track.accepted,
+		readings: { ...context.readings, [key]: analysis.settled ?? value },
+	};
+
+	if (!analysis.stable) {
+		return {
+			state: { status: "measuring", context },
+			effects: [{ type: "startTimer", step: key, ms: step.timeout }],
+		};
+	}
+
+	return {
+		state: { status: "stable", context },
+		effects: [{ type: "cancelTimers" }, { type: "scheduleAdvance", ms: STABLE_HOLD_MS }],
+	};
+};
+
+// Pure transition function: no timers, sockets, storage or I/O, only the next state and effects to run
+export const transition = (state: MachineState, event: MachineEvent, steps: StepDefinitions): Transition => {
+	const unchanged: Transition = { state, effects: [] };
+
+	switch (event.type) {
+		case "SENSOR_DATA":
+			return handleSensorData(state, steps, event.data, event.at);
+
+		case "TIMEOUT":
+			if (state.status !== "waiting" && state.status !== "measuring") return unchanged;
+			if (event.step !== currentStep(state)) return unchanged;
+			return {
+				state: { ...state, status: "timedOut" },
+				effects: [
+					{ type: "cancelTimers" },
+					{ type: "stopListening" },
+					{ type: "timedOut", step: event.step },
+				],
+			};
+
+		case "ADVANCE": {
+			if (state.status !== "stable") return unchanged;
+			const nextIndex = state.context.stepIndex + 1;
+			if (nextIndex < state.context.sequence.length) {
+				return enterStep(state.context, steps, nextIndex, event.at);
+			}
+			return startSubmitting(state.context);
+		}
+
+		case "SUBMIT_SUCCEEDED":
+			if (state.status !== "submitting") return unchanged;
+			return {
+				state: { ...state, status: "submitted" },
+				effects: [{ type: "submitted", readings: state.context.readings }],
+			};
+
+		case "SUBMIT_FAILED":
+			if (state.status !== "submitting") return unchanged;
+			return {
+				state: { status: "failed", context: { ...state.context, error: event.error } },
+				effects: [{ type: "submitFailed", error: event.error }],
+			};
+
+		case "RETRY":
+			if (state.status !== "failed") return unchanged;
+			return startSubmitting(state.context);
+	}
+};
+
+export type Clock = {
+	now: () => number;
+	setTimeout: (callback: () => void, ms: number) => unknown;
+	clearTimeout: (handle: unknown) => void;
+};
+
+export const systemClock: Clock = {
+	now: () => Date.now(),
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+type HostEffect = Exclude<MachineEffect, { type: "startTimer" | "scheduleAdvance" | "cancelTimers" }>;
+
+type RunnerOptions = {
+	sequence: StepKey[];
+	steps: StepDefinitions;
+	clock?: Clock;
+	onChange?: (state: MachineState) => void;
+	onEffect?: (effect: HostEffect) => void;
+};
+
+export type HealthCheckRunner = {
+	start: () => void;
+	getState: () => MachineState;
+	sensorData: (data: SensorData) => void;
+	submitSucceeded: () => void;
+	submitFailed: (error: string) => void;
+	retry: () => void;
+	stop: () => void;
+};
+
+// Interprets timer effects with the given clock and hands the rest to the host
+export const createHealthCheckRunner = ({
+	sequence,
+	steps,
+	clock = systemClock,
+	onChange,
+	onEffect,
+}: RunnerOptions): HealthCheckRunner => {
+	let state: MachineState | null = null;
+	let timers: unknown[] = [];
+	let stopped = false;
+
+	const cancelTimers = () => {
+		timers.forEach((handle) => clock.clearTimeout(handle));
+		timers = [];
+	};
+
+	const schedule = (callback: () => void, ms: number) => {
+		timers.push(clock.setTimeout(callback, ms));
+	};
+
+	const run = ({ state: next, effects }: Transition) => {
+		const changed = next !== state;
+		state = next;
+		if (changed) onChange?.(next);
+		effects.forEach((effect) => {
+			switch (effect.type) {
+				case "cancelTimers":
+					cancelTimers();
+					break;
+				case "startTimer":
+					cancelTimers();
+					schedule(() => dispatch({ type: "TIMEOUT", step: effect.step, at: clock.now() }), effect.ms);
+					break;
+				case "scheduleAdvance":
+					schedule(() => dispatch({ type: "ADVANCE", at: clock.now() }), effect.ms);
+					break;
+				default:
+					onEffect?.(effect);
+			}
+		});
+	};
+
+	const dispatch = (event: MachineEvent) => {
+		if (stopped || !state) return;
+		run(transition(state, event, steps));
+	};
+
+	return {
+		start: () => {
+			if (state) return;
+			run(createInitialTransition(sequence, steps, clock.now()));
+		},
+		getState: () => {
+			if (!state) throw new Error("Health check runner has not been started");
+			return state;
+		},
+		sensorData: (data) => dispatch({ type: "SENSOR_DATA", data, at: clock.now() }),
+		submitSucceeded: () => dispatch({ type: "SUBMIT_SUCCEEDED", at: clock.now() }),
+		submitFailed: (error) => dispatch({ type: "SUBMIT_FAILED", error, at: clock.now() }),
+		retry: () => dispatch({ type: "RETRY", at: clock.now() }),
+		stop: () => {
+			stopped = true;
+			cancelTimers();
+		},
+	};
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_ADMISSION_POLICY, evaluateAdmission } from "./admissionPolicy";
+import { getStep } from "./healthSteps";
+import { setKioskSettings } from "./kioskSettings";
+import { analyzeSample, EMPTY_TRACK, MIN_CONVERGE_WINDOW, type StabilityAnalysis } from "./stabilityAnalyzer";
+
+describe("ALCOHOL step payload", () => {
+	beforeEach(() => localStorage.clear());
+
+	it.each([
+		[0.01, "Трезвый", "normal"],
+		[0.08, "Трезвый", "warning"],
+		[0.3, "Пьяный", "fail"],
+		["abnormal", "Пьяный", "fail"],
+	])("sends %s as the binary label %s with the %s band", (reading, alcoholLevel, classification) => {
+		expect(getStep("ALCOHOL").toPayload(reading)).toMatchObject({
+			alcoholData: { alcoholLevel, classification },
+		});
+	});
+});
+
+describe("TEMPERATURE step", () => {
+	beforeEach(() => localStorage.clear());
+
+	it.each([
+		[33.1, "REVIEW", "implausibleTemperature"],
+		[38.4, "DENY", "fever"],
+		[43.2, "DENY", "fever"],
+	])("settles on %s °C so the admission policy returns %s for %s", (reading, verdict, code) => {
+		const { stability } = getStep("TEMPERATURE");
+		const samples = Array.from({ length: stability.kind === "converge" ? stability.window : 1 }, () => reading);
+		const analysis = samples.reduce<StabilityAnalysis | null>(
+			(previous, value) => analyzeSample(stability, previous?.track ?? EMPTY_TRACK, value),
+			null,
+		);
+
+		expect(analysis).toMatchObject({ stable: true, settled: reading });
+		const decision = evaluateAdmission(
+			{ sequence: ["TEMPERATURE"], readings: { TEMPERATURE: reading }, attempt: 1 },
+			DEFAULT_ADMISSION_POLICY,
+		);
+		expect(decision).toMatchObject({ verdict, reasons: [{ code, value: reading }] });
+	});
+});
+
+describe("kiosk settings", () => {
+	beforeEach(() => localStorage.clear());
+
+	it("applies the stability sample count to converge windows without going below the outlier minimum", () => {
+		setKioskSettings({ stabilitySamples: 8 });
+		expect(getStep("TEMPERATURE").stability).toMatchObject({ kind: "converge", window: 8 });
+
+		setKioskSettings({ stabilitySamples: 2 });
+		expect(getStep("TEMPERATURE").stability).toMatchObject({ kind: "converge", window: MIN_CONVERGE_WINDOW });
+	});
+});
@@ -0,0 +1,230 @@
+import { Drop, Gauge, Heart, Thermometer, Wine } from "@phosphor-icons/react";
+import type { Icon } from "@phosphor-icons/react";
+import { ALCOHOL_LABELS, classifyAlcohol, type AlcoholClass } from "./alcohol";
+import { MIN_CONVERGE_WINDOW, type StabilityRule } from "./stabilityAnalyzer";
+import { getKioskSettings } from "./kioskSettings";
+import { t } from "./i18n";
+
+export type { StabilityRule } from "./stabilityAnalyzer";
+
+const STEP_SEQUENCE_STORAGE_KEY = "healthSteps";
+const DEFAULT_STEP_SEQUENCE = ["TEMPERATURE", "ALCOHOL"] as const;
+
+// Raw payload of any sensor socket event
+export type SensorData = {
+	temperature?: string | number;
+	alcoholLevel?: string | number;
+	// Breath alcohol in mg/L from calibrated breathalyzers
+	alcoholValue?: string | number;
+	pulse?: string | number;
+	spo2?: string | number;
+	systolic?: string | number;
+	diastolic?: string | number;
+	sensorReady?: boolean;
+	cameraStatus?: "failed" | "success";
+};
+
+export type StepKey = "PULSE" | "TEMPERATURE" | "SPO2" | "BLOOD_PRESSURE" | "ALCOHOL";
+
+export type StepReading = number | string;
+
+export type ReadingTone = "normal" | "warning" | "fail";
+
+export type ReadingDescription = { label: string; tone: ReadingTone };
+
+export const READING_TONE_CLASSES: Record<ReadingTone, string> = {
+	normal: "text-green-500",
+	warning: "text-yellow-400",
+	fail: "text-red-500",
+};
+
+
+export type HealthStep = {
+	key: StepKey;
+	event: string;
+	title: string;
+	subtitle: string;
+	// Short name used on the results card
+	label: string;
+	icon: Icon;
+	unit: string;
+	// Decimal places shown for numeric readings
+	precision: number;
+	stability: StabilityRule;
+	timeout: number;
+	timeoutMessage: string;
+	// Waits for a `sensorReady: true` event before readings are accepted
+	requiresSensorReady?: boolean;
+	parse: (data: SensorData) => StepReading | null;
+	format: (value: StepReading) => string;
+	// Optional verdict-like caption shown under the value (e.g. alcohol band)
+	describe?: (value: StepReading) => ReadingDescription;
+	// Fragment merged into the POST /health body
+	toPayload: (value: StepReading) => Record<string, unknown>;
+};
+
+const toNumber = (raw: string | number | undefined, digits = 2): number | null => {
+	if (raw === undefined || raw === null || raw === "") return null;
+	const value = Number(raw);
+	return Number.isFinite(value) ? parseFloat(value.toFixed(digits)) : null;
+};
+
+// Units come from the catalogue so they follow the worker's language
+const formatNumber = (key: StepKey, digits: number, separator = "") => (value: StepReading) =>
+	typeof value === "number" ? `${value.toFixed(digits)}${separator}${t(`steps.${key}.unit`)}` : value;
+
+const SENSOR_TIMEOUT = 30000;
+
+// Worker-facing texts live in the message catalogue under `steps.<KEY>.*`
+type StepText = "title" | "subtitle" | "label" | "unit" | "timeoutMessage";
+
+export type StepDefinition = Omit<HealthStep, StepText>;
+
+export const HEALTH_STEPS: Record<StepKey, StepDefinition> = {
+	PULSE: {
+		key: "PULSE",
+		event: "pulse",
+		icon: Heart as Icon,
+		precision: 0,
+		stability: { kind: "samples", count: 5 },
+		timeout: SENSOR_TIMEOUT,
+		parse: (data) => toNumber(data.pulse, 0),
+		format: formatNumber("PULSE", 0, " "),
+		toPayload: (value) => ({ pulseData: { pulse: value } }),
+	},
+	TEMPERATURE: {
+		key: "TEMPERATURE",
+		event: "temperature",
+		icon: Thermometer as Icon,
+		precision: 1,
+		stability: {
+			kind: "converge",
+			window: 5,
+			maxStdDev: 0.1,
+			maxSlope: 0.05,
+			// Only sensor noise is dropped: a cold or feverish reading must settle so the admission policy can
+			// route it to REVIEW or DENY, wherever the supervisor has set its limits
+			min: 25,
+			max: 45,
+			maxJump: 1,
+			resetAfter: 3,
+		},
+		timeout: SENSOR_TIMEOUT,
+		parse: (data) => toNumber(data.temperature) || null,
+		format: formatNumber("TEMPERATURE", 1),
+		toPayload: (value) => ({ temperatureData: { temperature: value } }),
+	},
+	SPO2: {
+		key: "SPO2",
+		event: "spo2",
+		icon: Drop as Icon,
+		precision: 0,
+		stability: { kind: "samples", count: 5 },
+		timeout: SENSOR_TIMEOUT,
+		parse: (data) => toNumber(data.spo2, 0),
+		format: formatNumber("SPO2", 0),
+		toPayload: (value) => ({ spo2Data: { spo2: value } }),
+	},
+	BLOOD_PRESSURE: {
+		key: "BLOOD_PRESSURE",
+		event: "bloodPressure",
+		icon: Gauge as Icon,
+		precision: 0,
+		stability: { kind: "samples", count: 1 },
+		timeout: 60000,
+		parse: (data) => {
+			const systolic = toNumber(data.systolic, 0);
+			const diastolic = toNumber(data.diastolic, 0);
+			return systolic && diastolic ? `${systolic}/${diastolic}` : null;
+		},
+		format: (value) => `${value}`,
+		toPayload: (value) => {
+			const [systolic, diastolic] = String(value).split("/").map(Number);
+			return { bloodPressureData: { systolic, diastolic } };
+		},
+	},
+	ALCOHOL: {
+		key: "ALCOHOL",
+		event: "alcohol",
+		icon: Wine as Icon,
+		precision: 2,
+		stability: { kind: "samples", count: 1 },
+		timeout: SENSOR_TIMEOUT,
+		requiresSensorReady: true,
+		parse: (data) => {
+			const raw = data.alcoholValue ?? data.alcoholLevel;
+			const value = toNumber(raw, 3);
+			if (value !== null && value >= 0) return value;
+			// Legacy breathalyzers only report a binary label
+			return raw === "normal" || raw === "abnormal" ? raw : null;
+		},
+		format: (value) =>
+			typeof value === "number" ? formatNumber("ALCOHOL", 2, " ")(value) : t(`alcohol.${classifyAlcohol(value)}`),
+		describe: (value) => {
+			const classification = classifyAlcohol(value);
+			return { label: t(`alcohol.${classification}`), tone: classification };
+		},
+		toPayload: (value) => {
+			const classification: AlcoholClass = classifyAlcohol(value);
+			return {
+				alcoholData: {
+					// The server expects the binary Russian label whatever language the worker picked; the warning
+					// band only travels in classification
+					alcoholLevel: ALCOHOL_LABELS[classification === "fail" ? "fail" : "normal"],
+					value: typeof value === "number" ? value : null,
+					unit: "mg/L",
+					classification,
+				},
+			};
+		},
+	},
+};
+
+export const isStepKey = (key: string): key is StepKey => key in HEALTH_STEPS;
+
+// Supervisor settings replace the shared sensor timeout and the sample count of multi-sample rules; a converge
+// window never drops below the size its outlier check needs
+const withKioskSettings = (step: StepDefinition): HealthStep => {
+	const { sensorTimeout, stabilitySamples } = getKioskSettings();
+	const { stability } = step;
+	return {
+		...step,
+		title: t(`steps.${step.key}.title`),
+		subtitle: t(`steps.${step.key}.subtitle`),
+		label: t(`steps.${step.key}.label`),
+		unit: t(`steps.${step.key}.unit`),
+		timeoutMessage: t(`steps.${step.key}.timeout`),
+		timeout: step.timeout === SENSOR_TIMEOUT ? sensorTimeout * 1000 : step.timeout,
+		stability:
+			stability.kind === "converge"
+				? { ...stability, window: Math.max(stabilitySamples, MIN_CONVERGE_WINDOW) }
+				: stability.count > 1
+					? { ...stability, count: stabilitySamples }
+					: stability,
+	};
+};
+
+export const getStep = (key: StepKey): HealthStep => withKioskSettings(HEALTH_STEPS[key]);
+
+// Step definitions a check runs with, resolved once so settings or language changes cannot alter it midway
+export type StepDefinitions = Record<StepKey, HealthStep>;
+
+export const resolveSteps = (): StepDefinitions =>
+	Object.fromEntries(Object.values(HEALTH_STEPS).map((step) => [step.key, withKioskSettings(step)])) as StepDefinitions;
+
+// Site sequence override order: localStorage, then VITE_HEALTH_STEPS, then the default
+export const getStepSequence = (): StepKey[] => {
+	const raw =
+		localStorage.getItem(STEP_SEQUENCE_STORAGE_KEY) ?? import.meta.env.VITE_HEALTH_STEPS ?? "";
+	const keys = raw
+		.split(",")
+		.map((key) => key.trim().toUpperCase())
+		.filter(isStepKey);
+	const unique = [...new Set(keys)];
+	return unique.length > 0 ? unique : [...DEFAULT_STEP_SEQUENCE];
+};
+
+export const setStepSequence = (keys: StepKey[] | null) => {
+	if (keys && keys.length > 0) localStorage.setItem(STEP_SEQUENCE_STORAGE_KEY, keys.join(","));
+	else localStorage.removeItem(STEP_SEQUENCE_STORAGE_KEY);
+};
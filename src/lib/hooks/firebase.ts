@@ -1,5 +1,5 @@
 import { initializeApp } from "firebase/app";
-import { getDatabase } from "firebase/database";
+import { connectDatabaseEmulator, getDatabase } from "firebase/database";
 
 const firebaseConfig = {
     apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -14,5 +14,15 @@ const firebaseConfig = {
 
 // ✅ Prevent multiple Firebase initializations
 const firebaseApp = initializeApp(firebaseConfig);
-const db = getDatabase(firebaseApp);
+
+// getDatabase throws without a database URL, so kiosks without Firebase get `null`
+const db = firebaseConfig.databaseURL ? getDatabase(firebaseApp) : null;
+
+// e.g. VITE_FIREBASE_EMULATOR_HOST=localhost:9000
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST;
+if (db && emulatorHost) {
+    const [host, port] = emulatorHost.split(":");
+    connectDatabaseEmulator(db, host, Number(port) || 9000);
+}
+
 export { firebaseApp, db };
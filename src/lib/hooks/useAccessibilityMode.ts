@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { accessibilityMode } from "../accessibility";
+
+export const useAccessibilityMode = () => {
+	const [enabled, setEnabled] = useState(() => accessibilityMode.get());
+
+	useEffect(() => accessibilityMode.subscribe(setEnabled), []);
+
+	return enabled;
+};
@@ -1,131 +1,152 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { io, Socket } from "socket.io-client";
+import { assessFraming, type DetectableFrame, type FramingGuidance } from "../faceDetector";
+import { loadImage } from "../imageFrames";
+import {
+	createCameraSources,
+	type CameraSource,
+	type CameraSourceKind,
+} from "../services/cameraSources";
+import { t } from "../i18n";
+import { logger } from "../services/logger";
+
+const cameraLog = logger.category("camera");
 
 interface UseCameraProps {
 	onFrame: (imageData: string) => Promise<void>;
+	// Milliseconds between captured frames from a device camera
+	frameInterval?: number;
+	// Run on-device face detection and only pass well-framed frames to onFrame
+	requireFace?: boolean;
 }
 
-export const useCamera = ({ onFrame }: UseCameraProps) => {
+export const useCamera = ({ onFrame, frameInterval = 1000, requireFace = false }: UseCameraProps) => {
 	const videoRef = useRef<HTMLVideoElement | null>(null);
 	const canvasRef = useRef<HTMLCanvasElement | null>(null);
-	const socketRef = useRef<Socket | null>(null);
+	const sourceRef = useRef<CameraSource | null>(null);
 	const intervalRef = useRef<number | null>(null);
+	// Latest callback, so a new onFrame identity does not restart the camera
+	const onFrameRef = useRef(onFrame);
+	onFrameRef.current = onFrame;
+	// Skips frames that arrive while the previous one is still being analysed
+	const busyRef = useRef(false);
 
 	const [error, setError] = useState<string | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [lastFrame, setLastFrame] = useState<string | null>(null);
-	const [isRaspberryPi, setIsRaspberryPi] = useState(false);
+	const [source, setSource] = useState<CameraSourceKind | null>(null);
+	const [guidance, setGuidance] = useState<FramingGuidance | null>(null);
+
+	// 📌 Forward a frame, gated on face framing when requested
+	const deliverFrame = useCallback(
+		async (imageData: string, frame?: DetectableFrame) => {
+			if (busyRef.current) return;
+			busyRef.current = true;
+			try {
+				if (requireFace) {
+					const framing = await assessFraming(frame ?? (await loadImage(imageData)));
+					setGuidance(framing);
+					if (!framing.ready) return;
+				}
+				await onFrameRef.current(imageData);
+			} catch (err) {
+				// Frames are delivered fire-and-forget, so a failure here would otherwise go unreported
+				cameraLog.error("Error handling camera frame", err);
+			} finally {
+				busyRef.current = false;
+			}
+		},
+		[requireFace],
+	);
 
-	// 📌 Function to Capture Frame from a Device Camera
+	// 📌 Function to Capture Frame from the <video> element
 	const captureFrame = useCallback(async () => {
 		if (!canvasRef.current || !videoRef.current) return;
 		const canvas = canvasRef.current;
 		const video = videoRef.current;
+		if (!video.videoWidth) return;
 		canvas.width = video.videoWidth;
 		canvas.height = video.videoHeight;
 		const context = canvas.getContext("2d");
 		if (!context) return;
 		context.drawImage(video, 0, 0, canvas.width, canvas.height);
 		const imageData = canvas.toDataURL("image/jpeg", 0.6);
-		await onFrame(imageData);
-	}, [onFrame]);
+		await deliverFrame(imageData, canvas);
+	}, [deliverFrame]);
 
-	// 📌 Setup Raspberry Pi Camera
-	const setupRaspberryPiCamera = async () => {
-		try {
-			setLoading(true);
-			const socket = io( "http://localhost:3001");
-			socketRef.current = socket;
-			setIsRaspberryPi(true);
+	// 📌 Start the first healthy source in priority order, failing over when one dies
+	useEffect(() => {
+		let cancelled = false;
+		// Pushed frames arrive at the source's own rate; only one per frameInterval is analysed, as with video
+		let lastPushed = 0;
+		const sources = createCameraSources();
 
-			socket.on("connect", () => {
-				console.log("Connected to Raspberry Pi camera");
-				socket.emit("start-camera");
-			});
+		const stopActive = () => {
+			if (intervalRef.current) clearInterval(intervalRef.current);
+			intervalRef.current = null;
+			sourceRef.current?.stop();
+			sourceRef.current = null;
+		};
 
-			socket.on("camera-frame", async (data) => {
-				if (data.success) {
-					setLastFrame(data.image);
-					setLoading(false);
-					await onFrame(data.image);
+		const startFrom = async (index: number) => {
+			setLoading(true);
+			for (let i = index; i < sources.length; i++) {
+				const candidate = sources[i];
+				if (!(await candidate.probe().catch(() => false)) || cancelled) continue;
+
+				try {
+					sourceRef.current = candidate;
+					await candidate.start(videoRef.current, {
+						onFrame: (image) => {
+							if (cancelled || sourceRef.current !== candidate) return;
+							setLastFrame(image);
+							const now = Date.now();
+							if (now - lastPushed < frameInterval) return;
+							lastPushed = now;
+							void deliverFrame(image);
+						},
+						onError: (message) => {
+							if (cancelled || sourceRef.current !== candidate) return;
+							cameraLog.warn(`Camera source ${candidate.kind} failed, switching source`, message);
+							stopActive();
+							void startFrom(i + 1);
+						},
+					});
+				} catch (err) {
+					cameraLog.warn(`Camera source ${candidate.kind} unavailable`, err);
+					sourceRef.current = null;
+					candidate.stop();
+					continue;
 				}
-			});
 
-			socket.on("camera-error", (errorMessage) => {
-				console.error("Camera error:", errorMessage);
-				setError(errorMessage);
+				if (cancelled) {
+					candidate.stop();
+					return;
+				}
+				cameraLog.info(`Using camera source ${candidate.kind}`);
+				if (candidate.delivery === "video") {
+					intervalRef.current = window.setInterval(() => {
+						captureFrame().catch((err) => cameraLog.error("Error capturing camera frame", err));
+					}, frameInterval);
+				}
+				setSource(candidate.kind);
+				setError(null);
 				setLoading(false);
-			});
-
-			socket.on("disconnect", () => {
-				console.log("Disconnected from Raspberry Pi camera");
-			});
-		} catch (err) {
-			console.error("Error setting up Raspberry Pi camera:", err);
-			setError("Failed to connect to Raspberry Pi camera");
-			setLoading(false);
-		}
-	};
-
-	// 📌 Setup Device Camera
-	const setupDeviceCamera = async () => {
-		try {
-			setLoading(true);
-			const stream = await navigator.mediaDevices.getUserMedia({
-				video: { facingMode: "user", width: { ideal: 640 }, height: { ideal: 480 } },
-			});
-
-			if (videoRef.current) {
-				videoRef.current.srcObject = stream;
-				await new Promise((resolve) => {
-					if (videoRef.current) {
-						videoRef.current.onloadedmetadata = resolve;
-					}
-				});
-				await videoRef.current.play();
+				return;
 			}
 
-			// Start capturing frames
-			intervalRef.current = window.setInterval(captureFrame, 1000);
-			setLoading(false);
-		} catch (err) {
-			setError("Ошибка доступа к камере. Проверьте разрешения.");
+			if (cancelled) return;
+			setSource(null);
+			setError(t("face.cameraUnavailable"));
 			setLoading(false);
-			console.error("Error accessing device camera:", err);
-		}
-	};
-
-	// 📌 Automatically Detect and Setup the Correct Camera
-	useEffect(() => {
-		let mounted = true;
+		};
 
-		// Try connecting to Raspberry Pi camera first
-		fetch("http://localhost:3001")
-			.then(() => {
-				if (mounted) setupRaspberryPiCamera();
-			})
-			.catch(() => {
-				// If the server is unavailable, use the device camera
-				if (mounted) setupDeviceCamera();
-			});
+		void startFrom(0);
 
 		return () => {
-			mounted = false;
-
-			// Cleanup Raspberry Pi camera connection
-			if (socketRef.current) {
-				socketRef.current.emit("stop-camera");
-				socketRef.current.disconnect();
-			}
-
-			// Cleanup Device Camera
-			if (intervalRef.current) clearInterval(intervalRef.current);
-			if (videoRef.current?.srcObject) {
-				const videoStream = videoRef.current.srcObject as MediaStream;
-				videoStream.getTracks().forEach((track) => track.stop());
-			}
+			cancelled = true;
+			stopActive();
 		};
-	}, [captureFrame]);
+	}, [captureFrame, deliverFrame, frameInterval]);
 
-	return { videoRef, canvasRef, error, loading, lastFrame, isRaspberryPi };
+	return { videoRef, canvasRef, error, loading, lastFrame, source, guidance };
 };
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadCheckHistory, type HistoryEntry, type HistoryFilter } from "../checkHistory";
+import { t } from "../i18n";
+import { logger } from "../services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+// Reloads whenever the filter changes; `reload` picks up checks made since
+export const useCheckHistory = ({ from, to, verdict }: HistoryFilter) => {
+	const [entries, setEntries] = useState<HistoryEntry[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [version, setVersion] = useState(0);
+
+	useEffect(() => {
+		let cancelled = false;
+		setLoading(true);
+		loadCheckHistory({ from, to, verdict })
+			.then((result) => {
+				if (cancelled) return;
+				setEntries(result);
+				setError(null);
+			})
+			.catch((err) => {
+				kioskLog.error("Failed to load check history", err);
+				if (!cancelled) setError(t("history.loadFailed"));
+			})
+			.finally(() => {
+				if (!cancelled) setLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [from, to, verdict, version]);
+
+	const reload = useCallback(() => setVersion((prev) => prev + 1), []);
+
+	return { entries, loading, error, reload };
+};
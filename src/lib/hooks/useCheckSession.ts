@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { checkSession } from "../services/checkSession";
+
+export const useCheckSession = () => {
+	const [session, setSession] = useState(() => checkSession.get());
+
+	useEffect(() => checkSession.subscribe(setSession), []);
+
+	return session;
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Verdict } from "../admissionPolicy";
+import { getDoorActuator, getUnlockDuration } from "../services/doorActuator";
+import { logger } from "../services/logger";
+
+const doorLog = logger.category("door");
+
+export type DoorStatus = "idle" | "unlocking" | "unlocked" | "failed" | "unavailable";
+
+// Opens the door once for an ALLOW verdict; anything else leaves it shut
+export const useDoorUnlock = (verdict: Verdict, faceId: string | null) => {
+	const [status, setStatus] = useState<DoorStatus>("idle");
+	const [error, setError] = useState<string | null>(null);
+	const mountedRef = useRef(true);
+	const requestedRef = useRef(false);
+
+	const unlock = useCallback(async () => {
+		const actuator = getDoorActuator();
+		if (!actuator) {
+			setStatus("unavailable");
+			return;
+		}
+
+		setStatus("unlocking");
+		setError(null);
+		try {
+			await actuator.unlock({ faceId, durationMs: getUnlockDuration() });
+			doorLog.info(`Door unlocked via ${actuator.kind} actuator`);
+			if (mountedRef.current) setStatus("unlocked");
+		} catch (err) {
+			doorLog.error("Door unlock failed", err);
+			if (!mountedRef.current) return;
+			setStatus("failed");
+			setError(err instanceof Error ? err.message : String(err));
+		}
+	}, [faceId]);
+
+	useEffect(() => {
+		mountedRef.current = true;
+		if (verdict === "ALLOW" && !requestedRef.current) {
+			requestedRef.current = true;
+			unlock();
+		}
+		return () => {
+			mountedRef.current = false;
+		};
+	}, [verdict, unlock]);
+
+	return { status, error, retry: unlock };
+};
@@ -1,429 +1,217 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { io, type Socket } from "socket.io-client";
 import { toast } from "react-hot-toast";
-import { StateKey } from "../constants";
-
-// Constants
-const MAX_STABILITY_TIME = 7;
-const SOCKET_TIMEOUT = 30000; // 20 секунд таймаут для каждого сенсора
-
-// Sensor Data Type
-type SensorData = {
-    temperature?: string;
-    alcoholLevel?: string;
-    sensorReady?: boolean;
-    cameraStatus?: 'failed' | 'success';
-};
+import { getStep, getStepSequence, resolveSteps, type HealthStep, type StepDefinitions, type SensorData, type StepKey } from "../healthSteps";
+import {
+    createHealthCheckRunner,
+    createInitialTransition,
+    currentStep,
+    getProgress,
+    type HealthCheckRunner,
+    type MachineState,
+    type MachineStatus,
+    type StepReadings,
+} from "../healthCheckMachine";
+import { evaluateAdmission, getAttemptCount, type AdmissionDecision } from "../admissionPolicy";
+import { healthOutbox } from "../services/healthOutbox";
+import { getRepositories } from "../services/realtimeRepository";
+import { createSensorTransport } from "../services/sensorTransport";
+import { checkSession } from "../services/checkSession";
+import { t } from "../i18n";
+import { getKioskSettings } from "../kioskSettings";
+import { audioFeedback } from "../services/audioFeedback";
+import { logger } from "../services/logger";
+
+const sensorLog = logger.category("sensor");
+const submitLog = logger.category("submit");
+
+export type { StepReadings } from "../healthCheckMachine";
 
 type HealthCheckState = {
-    currentState: StateKey;
+    status: MachineStatus;
+    sequence: StepKey[];
+    currentState: StepKey;
     stabilityTime: number;
-    temperatureData: { temperature: number };
-    alcoholData: { alcoholLevel: string };
+    readings: StepReadings;
     sensorReady: boolean;
     secondsLeft: number;
+    error: string | null;
+};
+
+const submitHealthCheck = async (readings: StepReadings): Promise<AdmissionDecision> => {
+    const session = checkSession.get();
+    if (!session) throw new Error("Check session expired");
+    const { faceId, employee, sequence } = session;
+    if (!faceId) throw new Error("Face ID not found");
+
+    const admission = evaluateAdmission({ sequence, readings, attempt: getAttemptCount(faceId) });
+    submitLog.info(`Admission verdict: ${admission.verdict}`, admission.reasons);
+
+    const payload = sequence.reduce<Record<string, unknown>>((body, key) => {
+        const value = readings[key];
+        return value === undefined ? body : { ...body, ...getStep(key).toPayload(value) };
+    }, { faceId, admission, ...(employee ? { employee } : {}) });
+
+    submitLog.info("Sending health check data");
+    const result = await healthOutbox.submit({ faceId, readings, payload });
+
+    // Supervisors' dashboard mirror; the outbox stays the source of truth for delivery
+    getRepositories()
+        .checks.save({
+            id: result.entry.idempotencyKey,
+            faceId,
+            employee,
+            sequence,
+            readings,
+            createdAt: result.entry.createdAt,
+            admission,
+        })
+        .catch((error) => submitLog.error("Realtime Database sync error", error));
+    if (result.status === "queued") {
+        toast(t("health.queuedOffline"));
+    }
+    return admission;
 };
 
+// Spoken instruction once per step (for the breathalyzer only once it is ready to be blown into) and a tone when a step stabilises
+const createVoiceCues = (steps: StepDefinitions) => {
+    let announced: StepKey | null = null;
+    let previousStatus: MachineStatus | null = null;
+
+    return (state: MachineState) => {
+        const key = currentStep(state);
+        const measuring = state.status === "waiting" || state.status === "measuring";
+        if (state.status === "stable" && previousStatus !== "stable") audioFeedback.tone("step");
+        previousStatus = state.status;
+
+        if (!measuring || announced === key) return;
+        if (steps[key].requiresSensorReady && !state.context.sensorReady) return;
+        announced = key;
+        audioFeedback.speak(`steps.${key}.voice`);
+    };
+};
+
+// Thin React adapter: wires the sensor transport, HTTP and router to the pure health-check machine
 export const useHealthCheck = (): HealthCheckState & {
-    handleComplete: () => Promise<void>;
-    setCurrentState: React.Dispatch<React.SetStateAction<StateKey>>;
+    step: HealthStep;
+    progress: number;
+    retry: () => void;
 } => {
     const navigate = useNavigate();
-    const [state, setState] = useState<HealthCheckState>({
-        currentState: "TEMPERATURE",
-        stabilityTime: 0,
-        temperatureData: { temperature: 0 },
-        alcoholData: { alcoholLevel: "Не определено" },
-        sensorReady: false,
-        secondsLeft: 30,
-    });
-
-    const refs = useRef({
-        socket: null as Socket | null,
-        tempTimeout: null as NodeJS.Timeout | null,
-        alcoholTimeout: null as NodeJS.Timeout | null,
-        lastDataTime: Date.now(),
-        hasTimedOutTemp: false,
-        hasTimedOutAlcohol: false,
-        isSubmitting: false,
-        finalAlcoholLevel: "",
-        hasBeenReady: false,
-    }).current;
-
-    const updateState = useCallback(
-        <K extends keyof HealthCheckState>(updates: Pick<HealthCheckState, K>) => {
-            setState((prev) => ({ ...prev, ...updates }));
-        },
-        []
+    // The session fixed the step order when it began; a settings change mid-check must not reshuffle it
+    const [sequence] = useState(() => checkSession.get()?.sequence ?? getStepSequence());
+    const [steps] = useState(resolveSteps);
+    const [machine, setMachine] = useState<MachineState>(
+        () => createInitialTransition(sequence, steps, Date.now()).state,
     );
-    const handleComplete = useCallback(async () => {
-        if (refs.isSubmitting || refs.hasTimedOutAlcohol || state.currentState !== "ALCOHOL") return;
-        refs.isSubmitting = true;
-
-        try {
-            console.log("🔌 Disconnecting WebSockets before authentication...");
-            refs.socket?.off("temperature");
-            refs.socket?.off("alcohol");
-            refs.socket?.disconnect();
-
-            const faceId = localStorage.getItem("faceId");
-            if (!faceId) throw new Error("Face ID not found");
-
-            console.log("🚀 Sending health check data...");
-            const response = await fetch("http://localhost:3001/health", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    temperatureData: state.temperatureData,
-                    alcoholData: { alcoholLevel: refs.finalAlcoholLevel },
-                    faceId,
-                }),
-            });
-
-            if (!response.ok) throw new Error("Request failed");
-
-            console.log("✅ Data submitted, navigating to final results...");
-            navigate("/final-results", {
-                state: {
-                    temperature: state.temperatureData.temperature,
-                    alcoholLevel: refs.finalAlcoholLevel,
-                },
-                replace: true,
-            });
-        } catch (error) {
-            console.error("❌ Submission error:", error);
-            refs.isSubmitting = false;
-        }
-    }, [state, navigate]);
-
-
-    const handleTimeout = useCallback((type: "TEMPERATURE" | "ALCOHOL") => {
-        if (type === "TEMPERATURE" && refs.hasTimedOutTemp) return;
-        if (type === "ALCOHOL" && refs.hasTimedOutAlcohol) return;
-
-        console.warn(`⏳ Timeout reached for ${type}, navigating home...`);
-
-        if (type === "TEMPERATURE") {
-            refs.hasTimedOutTemp = true;
-            toast.error("Сбой связи с сенсором температуры. Попробуйте снова.");
-        } else if (type === "ALCOHOL") {
-            refs.hasTimedOutAlcohol = true;
-            toast.error("Вы неправильно подули, повторите попытку.");
-        }
-
-        setTimeout(() => navigate("/", { replace: true }), 1000);
-    }, [navigate]);
+    const runnerRef = useRef<HealthCheckRunner | null>(null);
 
-    const handleDataEvent = useCallback((data: SensorData) => {
-        if (refs.hasTimedOutTemp || refs.hasTimedOutAlcohol) {
-            console.warn("🚫 Ignoring data after timeout");
-            return;
-        }
-
-        console.log("📡 Received sensor data:", JSON.stringify(data));
-
-        if (!data || (!data.temperature && !data.alcoholLevel && data.sensorReady === undefined)) {
-            console.warn("⚠️ No valid sensor data received");
-            return;
-        }
-
-        refs.lastDataTime = Date.now();
-
-        // ✅ Обновляем sensorReady только если он становится true
-        if (data.sensorReady !== undefined && !refs.hasBeenReady) {
-            console.log(`🚦 Sensor ready: ${data.sensorReady}`);
-            if (data.sensorReady) refs.hasBeenReady = true;
-            updateState({ sensorReady: refs.hasBeenReady });
-        }
-
-        if (data.temperature) {
-            const tempValue = parseFloat(Number(data.temperature).toFixed(2)) || 0;
-            console.log(`🌡️ Temperature received: ${tempValue}°C`);
-
-            setState((prev) => ({
-                ...prev,
-                stabilityTime: prev.stabilityTime + 1,
-                temperatureData: { temperature: tempValue },
-                currentState: prev.stabilityTime + 1 >= MAX_STABILITY_TIME ? "ALCOHOL" : prev.currentState,
-            }));
-
-            clearTimeout(refs.tempTimeout!);
-            refs.tempTimeout = setTimeout(() => handleTimeout("TEMPERATURE"), SOCKET_TIMEOUT);
-        }
-
-        if (refs.hasBeenReady && data.alcoholLevel !== null) {
-            refs.finalAlcoholLevel = data.alcoholLevel === "normal" ? "Трезвый" : "Пьяный";
-            console.log(`✅ Alcohol detected as "${refs.finalAlcoholLevel}", navigating...`);
-
-            setState((prev) => ({
-                ...prev,
-                stabilityTime: MAX_STABILITY_TIME,
-                alcoholData: { alcoholLevel: refs.finalAlcoholLevel },
-            }));
-
-            clearTimeout(refs.alcoholTimeout!);
-            refs.alcoholTimeout = setTimeout(() => handleTimeout("ALCOHOL"), SOCKET_TIMEOUT);
-
-            handleComplete();
-        }
-    }, [handleComplete]);
-
-  
     useEffect(() => {
-        if (!refs.socket) {
-            refs.socket = io("http://localhost:3001", {
-                transports: ["websocket"],
-                reconnection: true,
-                reconnectionAttempts: Infinity,
-                reconnectionDelay: 1000,
-            });
-        }
-
-        refs.socket.off("temperature");
-        refs.socket.off("alcohol");
-        refs.socket.off("sensorReady");
-        refs.socket.off("camera");
-
-        console.log(`🔄 Setting up WebSocket listeners for state: ${state.currentState}`);
-
-        if (state.currentState === "TEMPERATURE") {
-            refs.socket.on("temperature", handleDataEvent);
-            refs.tempTimeout = setTimeout(() => handleTimeout("TEMPERATURE"), SOCKET_TIMEOUT);
-        } else if (state.currentState === "ALCOHOL") {
-            refs.socket.on("alcohol", handleDataEvent);
-            refs.alcoholTimeout = setTimeout(() => handleTimeout("ALCOHOL"), SOCKET_TIMEOUT);
-        }
+        const transport = createSensorTransport();
+        let stepEvent: string | null = null;
+        let navigateTimer: ReturnType<typeof setTimeout> | null = null;
+        let admission: AdmissionDecision | null = null;
+        const voiceCues = createVoiceCues(steps);
+
+        const handleDataEvent = (data: SensorData) => {
+            sensorLog.debug("Received sensor data", data);
+            runner.sensorData(data);
+        };
 
-        refs.socket.on("sensorReady", handleDataEvent);
-        refs.socket.on("camera", handleDataEvent);
+        const runner = createHealthCheckRunner({
+            sequence,
+            steps,
+            onChange: (state) => {
+                setMachine(state);
+                voiceCues(state);
+            },
+            onEffect: (effect) => {
+                switch (effect.type) {
+                    case "listen":
+                        if (stepEvent) transport.off(stepEvent, handleDataEvent);
+                        stepEvent = steps[effect.step].event;
+                        sensorLog.debug(`Listening for ${stepEvent} (${effect.step})`);
+                        transport.on(stepEvent, handleDataEvent);
+                        break;
+                    case "stopListening":
+                        sensorLog.debug("Disconnecting from sensors");
+                        transport.close();
+                        break;
+                    case "timedOut":
+                        sensorLog.warn(`Timeout reached for ${effect.step}, returning home`);
+                        toast.error(steps[effect.step].timeoutMessage);
+                        audioFeedback.tone("failure");
+                        navigateTimer = setTimeout(() => navigate("/", { replace: true }), 1000);
+                        break;
+                    case "submit":
+                        if (navigateTimer) clearTimeout(navigateTimer);
+                        submitHealthCheck(effect.readings).then(
+                            (decision) => {
+                                admission = decision;
+                                runner.submitSucceeded();
+                            },
+                            (error: unknown) => {
+                                submitLog.error("Submission failed", error);
+                                runner.submitFailed(error instanceof Error ? error.message : String(error));
+                            },
+                        );
+                        break;
+                    case "submitted":
+                        submitLog.info("Health check submitted, showing results");
+                        if (admission) checkSession.complete(effect.readings, admission);
+                        navigate("/final-results", { replace: true });
+                        break;
+                    case "submitFailed": {
+                        toast.error(t("health.submitFailedToast"));
+                        audioFeedback.tone("failure");
+                        // The sensors are already closed and this route is exempt from the idle reset, so an
+                        // unanswered Retry must not strand the next worker here
+                        const { idleTimeout } = getKioskSettings();
+                        navigateTimer = setTimeout(() => {
+                            submitLog.warn(`Submission not retried within ${idleTimeout}s, returning home`);
+                            navigate("/", { replace: true });
+                        }, idleTimeout * 1000);
+                        break;
+                    }
+                }
+            },
+        });
+        runnerRef.current = runner;
+
+        transport.on("sensorReady", handleDataEvent);
+        transport.on("camera", handleDataEvent);
+        transport.onConnectionChange((connected) => {
+            if (connected) return;
+            sensorLog.warn("Sensor connection lost");
+            toast.error(t("health.sensorsDisconnected"), { id: "sensor-connection" });
+        });
+        runner.start();
 
         return () => {
-            clearTimeout(refs.tempTimeout!);
-            clearTimeout(refs.alcoholTimeout!);
+            runner.stop();
+            runnerRef.current = null;
+            audioFeedback.stopSpeech();
+            if (navigateTimer) clearTimeout(navigateTimer);
+            transport.close();
         };
-    }, [state.currentState, handleTimeout, handleDataEvent]);
+    }, [sequence, steps, navigate]);
 
-    useEffect(() => {
-        console.log("🌡 UI updated with temperature:", state.temperatureData.temperature);
-    }, [state.temperatureData.temperature]);
+    const retry = useCallback(() => runnerRef.current?.retry(), []);
+
+    const key = currentStep(machine);
+    const step = steps[key];
 
     return {
-        ...state,
-        handleComplete,
-        setCurrentState: (newState) => updateState({ currentState: typeof newState === "function" ? newState(state.currentState) : newState }),
+        status: machine.status,
+        sequence,
+        currentState: key,
+        stabilityTime: machine.context.samples,
+        readings: machine.context.readings,
+        sensorReady: machine.context.sensorReady,
+        secondsLeft: step.timeout / 1000,
+        error: machine.context.error,
+        step,
+        progress: getProgress(machine),
+        retry,
     };
 };
-
-//  import { useState, useEffect, useCallback, useRef } from "react";
-// import { useNavigate } from "react-router-dom";
-// import { io, type Socket } from "socket.io-client";
-// import { toast } from "react-hot-toast";
-// import { StateKey } from "../constants";
-
-// // Constants
-// const MAX_STABILITY_TIME = 7; // 7 seconds for progress completion
-// const SOCKET_TIMEOUT = 30000; // 20 seconds timeout before showing an error
-
-// // Define sensor data types
-// type SensorData = {
-//     temperature?: string;
-//     alcoholLevel?: string;
-//     cameraStatus?: "failed" | "success";
-// };
-
-// type HealthCheckState = {
-//     currentState: StateKey;
-//     stabilityTime: number;
-//     temperatureData: { temperature: number };
-//     alcoholData: { alcoholLevel: string };
-//     secondsLeft: number;
-// };
-
-// export const useHealthCheck = (): HealthCheckState & {
-//     handleComplete: () => Promise<void>;
-//     setCurrentState: React.Dispatch<React.SetStateAction<StateKey>>;
-// } => {
-//     const navigate = useNavigate();
-//     const [state, setState] = useState<HealthCheckState>({
-//         currentState: "TEMPERATURE",
-//         stabilityTime: 0,
-//         temperatureData: { temperature: 0 },
-//         alcoholData: { alcoholLevel: "Не определено" },
-//         secondsLeft: 7,
-//     });
-
-//     const refs = useRef({
-//         socket: null as Socket | null,
-//         temperatureTimeout: null as NodeJS.Timeout | null,
-//         alcoholTimeout: null as NodeJS.Timeout | null,
-//         hasTimedOutTemperature: false,
-//         hasTimedOutAlcohol: false,
-//         isSubmitting: false,
-//         finalAlcoholLevel: "", // Store the final alcohol level
-//     }).current;
-
-//     const updateState = useCallback(
-//         <K extends keyof HealthCheckState>(updates: Pick<HealthCheckState, K>) => {
-//             setState((prev) => ({ ...prev, ...updates }));
-//         },
-//         []
-//     );
-
-//     const handleTimeout = useCallback(
-//         (type: "TEMPERATURE" | "ALCOHOL") => {
-//             if (type === "TEMPERATURE" && refs.hasTimedOutTemperature) return;
-//             if (type === "ALCOHOL" && refs.hasTimedOutAlcohol) return;
-
-//             if (type === "TEMPERATURE") {
-//                 refs.hasTimedOutTemperature = true;
-//                 console.warn("⏳ Timeout для TEMPERATURE, переход в ALCOHOL...");
-//                 updateState({ currentState: "ALCOHOL", stabilityTime: 0 });
-
-//                 clearTimeout(refs.temperatureTimeout!);
-//             } else if (type === "ALCOHOL") {
-//                 // 🚀 FIX: Prevent `toast.error` if alcohol was detected!
-//                 if (refs.finalAlcoholLevel) return;
-
-//                 refs.hasTimedOutAlcohol = true;
-//                 console.warn("⏳ Timeout для ALCOHOL, показываем ошибку...");
-//                 toast.error("Вы неправильно подули, повторите попытку.");
-//                 setTimeout(() => navigate("/", { replace: true }), 1000);
-
-//                 clearTimeout(refs.alcoholTimeout!);
-//             }
-//         },
-//         [navigate]
-//     );
-
-//     const handleDataEvent = useCallback((data: SensorData) => {
-//         console.log("📡 Received sensor data:", JSON.stringify(data));
-
-//         if (!data || (!data.temperature && !data.alcoholLevel)) {
-//             console.warn("⚠️ No valid sensor data received");
-//             return;
-//         }
-
-//         // ✅ If temperature data is received, update it
-//         if (data.temperature) {
-//             const tempValue = parseFloat(Number(data.temperature).toFixed(2)) || 0;
-//             console.log(`🌡️ Temperature received: ${tempValue}°C`);
-
-//             setState((prev) => {
-//                 let nextState = prev.currentState;
-//                 let nextStabilityTime = prev.stabilityTime + 1;
-
-//                 // ✅ Progress temperature stability time
-//                 if (prev.currentState === "TEMPERATURE") {
-//                     if (nextStabilityTime >= MAX_STABILITY_TIME) {
-//                         nextState = "ALCOHOL";
-//                         nextStabilityTime = 0;
-//                         console.log("🔄 Switching to ALCOHOL...");
-//                     }
-//                 }
-
-//                 return {
-//                     ...prev,
-//                     stabilityTime: nextStabilityTime,
-//                     temperatureData: { temperature: tempValue },
-//                     currentState: nextState,
-//                 };
-//             });
-
-//             if (refs.temperatureTimeout !== null) {
-//                 clearTimeout(refs.temperatureTimeout);
-//             }
-//             refs.temperatureTimeout = setTimeout(() => handleTimeout("TEMPERATURE"), SOCKET_TIMEOUT);
-//         }
-
-//         // ✅ If valid alcohol data is received, update state & clear timeout
-//         if (data.alcoholLevel === "normal" || data.alcoholLevel === "abnormal") {
-//             console.log("✅ Valid alcohol data received, updating state...");
-
-//             if (refs.alcoholTimeout !== null) {
-//                 clearTimeout(refs.alcoholTimeout);
-//                 refs.alcoholTimeout = null;
-//             }
-
-//             refs.finalAlcoholLevel = data.alcoholLevel === "normal" ? "Трезвый" : "Пьяный";
-
-//             console.log("📡 Updated finalAlcoholLevel:", refs.finalAlcoholLevel);
-
-//             setState((prev) => ({
-//                 ...prev,
-//                 stabilityTime: MAX_STABILITY_TIME,
-//                 alcoholData: { alcoholLevel: refs.finalAlcoholLevel },
-//             }));
-
-//             handleComplete();
-//             return;
-//         }
-//     }, []);
-
-//     const handleComplete = useCallback(async () => {
-//         if (refs.isSubmitting || refs.hasTimedOutAlcohol || state.currentState !== "ALCOHOL") return;
-//         refs.isSubmitting = true;
-
-//         // ✅ Ensure timeouts are cleared before submission
-//         if (refs.alcoholTimeout !== null) {
-//             clearTimeout(refs.alcoholTimeout);
-//             refs.alcoholTimeout = null;
-//         }
-
-//         if (refs.temperatureTimeout !== null) {
-//             clearTimeout(refs.temperatureTimeout);
-//             refs.temperatureTimeout = null;
-//         }
-
-//         console.log("🚀 Submitting health check data with:", {
-//             temperature: state.temperatureData.temperature,
-//             alcoholLevel: refs.finalAlcoholLevel,
-//         });
-
-//         try {
-//             // 🚀 FIX: Store values in `localStorage` to persist after navigation
-//             localStorage.setItem("finalTemperature", JSON.stringify(state.temperatureData.temperature));
-//             localStorage.setItem("finalAlcoholLevel", JSON.stringify(refs.finalAlcoholLevel));
-
-//             navigate("/final-results", { replace: true });
-
-//             return;
-//         } catch (error) {
-//             console.error("❌ Submission error:", error);
-//             refs.isSubmitting = false;
-//         }
-//     }, [state, navigate]);
-
-//     useEffect(() => {
-//         if (!refs.socket) {
-//             refs.socket = io("http://localhost:3001", {
-//                 transports: ["websocket"],
-//                 reconnection: true,
-//                 reconnectionAttempts: Infinity,
-//                 reconnectionDelay: 1000,
-//             });
-//         }
-
-//         refs.socket.off("temperature");
-//         refs.socket.off("alcohol");
-
-//         if (state.currentState === "TEMPERATURE") {
-//             refs.socket.on("temperature", handleDataEvent);
-//         } else if (state.currentState === "ALCOHOL") {
-//             refs.socket.on("alcohol", handleDataEvent);
-//         }
-
-//         refs.temperatureTimeout = setTimeout(() => handleTimeout("TEMPERATURE"), SOCKET_TIMEOUT);
-//         refs.alcoholTimeout = setTimeout(() => handleTimeout("ALCOHOL"), SOCKET_TIMEOUT);
-//     }, [state.currentState, handleTimeout, handleDataEvent]);
-
-//     return {
-//         ...state,
-//         handleComplete,
-//         setCurrentState: (newState) => updateState({ currentState: typeof newState === "function" ? newState(state.currentState) : newState }),
-//     };
-// };
-
-
-
- 
\ No newline at end of file
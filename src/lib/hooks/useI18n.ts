@@ -0,0 +1,12 @@
+import { useCallback, useEffect, useState } from "react";
+import { getDateLocale, i18n, translate, type MessageKey, type MessageParams } from "../i18n";
+
+export const useI18n = () => {
+	const [locale, setLocale] = useState(() => i18n.get());
+
+	useEffect(() => i18n.subscribe(setLocale), []);
+
+	const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+
+	return { locale, t, dateLocale: getDateLocale(locale) };
+};
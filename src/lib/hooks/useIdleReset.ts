@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { getKioskSettings } from "../kioskSettings";
+import { lockSupervisor } from "../supervisorAuth";
+import { logger } from "../services/logger";
+
+const navigationLog = logger.category("navigation");
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel"] as const;
+// Home is already idle; the measuring screens run their own sensor timeouts and nobody touches the screen while blowing
+const IDLE_EXEMPT_ROUTES = ["/", "/health-check", "/complete-authentication"];
+
+// Sends an abandoned screen home; unmounting the page is what releases its camera and sensor sockets
+export const useIdleReset = () => {
+	const navigate = useNavigate();
+	const { pathname } = useLocation();
+
+	useEffect(() => {
+		if (IDLE_EXEMPT_ROUTES.includes(pathname)) return;
+		const { idleTimeout } = getKioskSettings();
+		let timer: number | undefined;
+
+		const restart = () => {
+			clearTimeout(timer);
+			timer = window.setTimeout(() => {
+				navigationLog.info(`No activity on ${pathname} for ${idleTimeout}s, returning home`);
+				// A supervisor who walked away must not leave the console open to the next worker
+				lockSupervisor();
+				navigate("/", { replace: true });
+			}, idleTimeout * 1000);
+		};
+
+		restart();
+		ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+		return () => {
+			clearTimeout(timer);
+			ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+		};
+	}, [pathname, navigate]);
+};
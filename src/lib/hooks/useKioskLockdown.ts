@@ -0,0 +1,48 @@
+import { useEffect, useRef } from "react";
+import { useLocation, useNavigate, useNavigationType } from "react-router-dom";
+import { logger } from "../services/logger";
+
+const navigationLog = logger.category("navigation");
+const kioskLog = logger.category("kiosk");
+
+// On by default in production builds; a dev server only locks down with VITE_KIOSK_MODE=true
+export const isKioskLockdownEnabled = () =>
+	import.meta.env.VITE_KIOSK_MODE ? import.meta.env.VITE_KIOSK_MODE === "true" : !import.meta.env.DEV;
+
+// Fullscreen, no context menu and no browser back/forward into a finished or foreign flow
+export const useKioskLockdown = () => {
+	const navigate = useNavigate();
+	const location = useLocation();
+	const navigationType = useNavigationType();
+	const initialRef = useRef(true);
+
+	useEffect(() => {
+		// The first location of a page load is also a POP
+		if (initialRef.current) {
+			initialRef.current = false;
+			return;
+		}
+		if (!isKioskLockdownEnabled() || navigationType !== "POP" || location.pathname === "/") return;
+		navigationLog.warn(`History navigation to ${location.pathname} blocked, returning home`);
+		navigate("/", { replace: true });
+	}, [location, navigationType, navigate]);
+
+	useEffect(() => {
+		if (!isKioskLockdownEnabled()) return;
+		const blockContextMenu = (event: Event) => event.preventDefault();
+		// Browsers only grant fullscreen inside a user gesture, so every touch re-asserts it
+		const enterFullscreen = () => {
+			if (document.fullscreenElement || !document.fullscreenEnabled) return;
+			document.documentElement
+				.requestFullscreen()
+				.catch((err) => kioskLog.warn("Fullscreen refused", err));
+		};
+
+		document.addEventListener("contextmenu", blockContextMenu);
+		window.addEventListener("pointerdown", enterFullscreen);
+		return () => {
+			document.removeEventListener("contextmenu", blockContextMenu);
+			window.removeEventListener("pointerdown", enterFullscreen);
+		};
+	}, []);
+};
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { useKioskPresence } from "./useKioskPresence";
+import { getRepositories, InMemoryPresenceRepository, setRepositories } from "../services/realtimeRepository";
+
+describe("useKioskPresence", () => {
+	const original = getRepositories();
+
+	afterEach(() => {
+		setRepositories(original);
+		vi.useRealTimers();
+	});
+
+	it("goes online on mount, keeps sending heartbeats and goes offline on unmount", async () => {
+		vi.useFakeTimers({ now: 1000 });
+		const presence = new InMemoryPresenceRepository();
+		setRepositories({ presence });
+
+		const { unmount } = renderHook(() => useKioskPresence());
+		await vi.advanceTimersByTimeAsync(0);
+		expect(presence.presence).toEqual({ status: "online", lastSeen: 1000 });
+
+		await vi.advanceTimersByTimeAsync(30000);
+		expect(presence.presence).toEqual({ status: "online", lastSeen: 31000 });
+
+		unmount();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(presence.presence?.status).toBe("offline");
+	});
+});
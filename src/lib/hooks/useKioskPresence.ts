@@ -0,0 +1,23 @@
+import { useEffect } from "react";
+import { getRepositories } from "../services/realtimeRepository";
+import { logger } from "../services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+const HEARTBEAT_INTERVAL = 30000;
+
+// Publishes this terminal's online status so supervisors can see which kiosks are alive
+export const useKioskPresence = () => {
+	useEffect(() => {
+		const { presence } = getRepositories();
+		const report = (error: unknown) => kioskLog.error("Kiosk presence error", error);
+
+		presence.connect().catch(report);
+		const timer = setInterval(() => presence.heartbeat().catch(report), HEARTBEAT_INTERVAL);
+
+		return () => {
+			clearInterval(timer);
+			presence.disconnect().catch(report);
+		};
+	}, []);
+};
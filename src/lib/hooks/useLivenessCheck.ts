@@ -0,0 +1,54 @@
+import { useCallback, useRef, useState } from "react";
+import {
+	assessConsistency,
+	frameSignature,
+	LIVENESS_FRAME_COUNT,
+	LIVENESS_PROMPTS,
+	pickChallenge,
+	type LivenessChallenge,
+	type LivenessEvidence,
+} from "../liveness";
+import { t } from "../i18n";
+
+// Collects a burst of frames for a random challenge and checks they come from a live, continuous scene
+export const useLivenessCheck = () => {
+	const [challenge, setChallenge] = useState<LivenessChallenge>(() => pickChallenge());
+	const [captured, setCaptured] = useState(0);
+	const framesRef = useRef<{ image: string; capturedAt: number }[]>([]);
+
+	const reset = useCallback(() => {
+		framesRef.current = [];
+		setCaptured(0);
+		setChallenge((previous) => pickChallenge(previous));
+	}, []);
+
+	// Resolves with the evidence once enough frames are in, otherwise null
+	const addFrame = useCallback(
+		async (image: string): Promise<LivenessEvidence | null> => {
+			if (framesRef.current.length >= LIVENESS_FRAME_COUNT) return null;
+
+			framesRef.current = [...framesRef.current, { image, capturedAt: Date.now() }];
+			setCaptured(framesRef.current.length);
+			if (framesRef.current.length < LIVENESS_FRAME_COUNT) return null;
+
+			const frames = framesRef.current;
+			const signatures = await Promise.all(frames.map(({ image }) => frameSignature(image)));
+			return {
+				challenge,
+				frames: frames.map(({ image }) => image),
+				capturedAt: frames.map(({ capturedAt }) => capturedAt),
+				consistency: assessConsistency(signatures),
+			};
+		},
+		[challenge],
+	);
+
+	return {
+		challenge,
+		prompt: t(LIVENESS_PROMPTS[challenge]),
+		captured,
+		total: LIVENESS_FRAME_COUNT,
+		addFrame,
+		reset,
+	};
+};
@@ -0,0 +1,10 @@
+import { useEffect, useState } from "react";
+import { healthOutbox } from "../services/healthOutbox";
+
+export const usePendingUploads = () => {
+	const [pending, setPending] = useState(healthOutbox.getPendingCount());
+
+	useEffect(() => healthOutbox.subscribe(setPending), []);
+
+	return pending;
+};
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { logger } from "../services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+// Keeps the wall display awake; browsers drop the lock whenever the page is hidden, so it is re-acquired on return
+export const useWakeLock = () => {
+	useEffect(() => {
+		if (!("wakeLock" in navigator)) {
+			kioskLog.warn("Screen wake lock is not supported by this browser");
+			return;
+		}
+		let sentinel: WakeLockSentinel | null = null;
+		let disposed = false;
+
+		const acquire = async () => {
+			if (document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return;
+			try {
+				sentinel = await navigator.wakeLock.request("screen");
+				if (disposed) sentinel.release().catch(() => undefined);
+			} catch (err) {
+				kioskLog.warn("Screen wake lock refused", err);
+			}
+		};
+
+		acquire();
+		document.addEventListener("visibilitychange", acquire);
+		return () => {
+			disposed = true;
+			document.removeEventListener("visibilitychange", acquire);
+			sentinel?.release().catch(() => undefined);
+		};
+	}, []);
+};
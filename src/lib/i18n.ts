@@ -0,0 +1,106 @@
+import type { Locale as DateLocale } from "date-fns";
+import { enUS, kk as kkDates, ru as ruDates } from "date-fns/locale";
+import { ru } from "./locales/ru";
+import { kk } from "./locales/kk";
+import { en } from "./locales/en";
+import { logger } from "./services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+const SITE_LOCALE_STORAGE_KEY = "siteLocale";
+
+export type Locale = "ru" | "kk" | "en";
+
+export type MessageKey = keyof typeof ru;
+
+export type Catalogue = Record<MessageKey, string>;
+
+// Values substituted for `{name}` placeholders
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: Locale[] = ["ru", "kk", "en"];
+
+// Each language is named in itself so a worker can find theirs
+export const LOCALE_NAMES: Record<Locale, string> = {
+	ru: "Русский",
+	kk: "Қазақша",
+	en: "English",
+};
+
+const CATALOGUES: Record<Locale, Catalogue> = { ru, kk, en };
+
+const DATE_LOCALES: Record<Locale, DateLocale> = { ru: ruDates, kk: kkDates, en: enUS };
+
+type Listener = (locale: Locale) => void;
+
+export const isLocale = (value: string): value is Locale => (LOCALES as string[]).includes(value);
+
+// Site default order: localStorage, then VITE_DEFAULT_LOCALE, then Russian
+const defaultSiteLocale = (): Locale => {
+	const configured = import.meta.env.VITE_DEFAULT_LOCALE ?? "";
+	return isLocale(configured) ? configured : "ru";
+};
+
+export const getSiteLocale = (): Locale => {
+	const stored = localStorage.getItem(SITE_LOCALE_STORAGE_KEY) ?? "";
+	return isLocale(stored) ? stored : defaultSiteLocale();
+};
+
+// The build's default is not stored, so the kiosk follows it if it changes
+export const setSiteLocale = (locale: Locale | null) => {
+	if (locale && locale !== defaultSiteLocale()) localStorage.setItem(SITE_LOCALE_STORAGE_KEY, locale);
+	else localStorage.removeItem(SITE_LOCALE_STORAGE_KEY);
+};
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) => {
+	const template = CATALOGUES[locale][key];
+	if (!params) return template;
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in params ? String(params[name]) : placeholder,
+	);
+};
+
+// Language of the worker at the kiosk: picked on Home, back to the site default after every session
+class LocaleStore {
+	private locale: Locale = getSiteLocale();
+	private listeners = new Set<Listener>();
+
+	constructor() {
+		this.applyToDocument();
+	}
+
+	get() {
+		return this.locale;
+	}
+
+	set(locale: Locale) {
+		if (locale === this.locale) return;
+		kioskLog.info(`Language switched to ${locale}`);
+		this.locale = locale;
+		this.applyToDocument();
+		this.listeners.forEach((listener) => listener(locale));
+	}
+
+	reset() {
+		this.set(getSiteLocale());
+	}
+
+	subscribe(listener: Listener) {
+		this.listeners.add(listener);
+		listener(this.locale);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private applyToDocument() {
+		if (typeof document !== "undefined") document.documentElement.lang = this.locale;
+	}
+}
+
+export const i18n = new LocaleStore();
+
+// For code outside React (toasts, step definitions, admission reasons); components use `useI18n`
+export const t = (key: MessageKey, params?: MessageParams) => translate(i18n.get(), key, params);
+
+export const getDateLocale = (locale: Locale = i18n.get()) => DATE_LOCALES[locale];
@@ -0,0 +1,35 @@
+export type GrayFrame = {
+	width: number;
+	height: number;
+	// Luma per pixel, 0..1
+	pixels: Float32Array;
+};
+
+export const loadImage = (dataUrl: string) =>
+	new Promise<HTMLImageElement>((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error("Invalid frame"));
+		image.src = dataUrl;
+	});
+
+// Downscaled grayscale buffer of any drawable source (video, canvas, image)
+export const toGrayFrame = (source: CanvasImageSource, width: number, height = width): GrayFrame => {
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	const context = canvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Canvas is not available");
+
+	context.drawImage(source, 0, 0, width, height);
+	const { data } = context.getImageData(0, 0, width, height);
+	const pixels = new Float32Array(width * height);
+	for (let i = 0; i < pixels.length; i++) {
+		pixels[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+	}
+	return { width, height, pixels };
+};
+
+// Decodes a JPEG data URL into a downscaled grayscale buffer for cheap on-device analysis
+export const loadGrayFrame = async (dataUrl: string, width: number, height = width) =>
+	toGrayFrame(await loadImage(dataUrl), width, height);
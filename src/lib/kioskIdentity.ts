@@ -0,0 +1,26 @@
+const KIOSK_ID_STORAGE_KEY = "kioskId";
+const SITE_ID_STORAGE_KEY = "siteId";
+const DEFAULT_SITE_ID = "default";
+
+const defaultSiteId = () => import.meta.env.VITE_SITE_ID?.trim() || DEFAULT_SITE_ID;
+
+export const getSiteId = (): string => localStorage.getItem(SITE_ID_STORAGE_KEY) || defaultSiteId();
+
+// The build's site ID is not stored, so the kiosk follows it if it changes
+export const setSiteId = (siteId: string | null) => {
+	if (siteId && siteId !== defaultSiteId()) localStorage.setItem(SITE_ID_STORAGE_KEY, siteId);
+	else localStorage.removeItem(SITE_ID_STORAGE_KEY);
+};
+
+// A kiosk without a configured ID generates one once and keeps it across reloads
+export const getKioskId = (): string => {
+	const configured = import.meta.env.VITE_KIOSK_ID?.trim();
+	if (configured) return configured;
+
+	let kioskId = localStorage.getItem(KIOSK_ID_STORAGE_KEY);
+	if (!kioskId) {
+		kioskId = `kiosk-${Math.random().toString(36).slice(2, 10)}`;
+		localStorage.setItem(KIOSK_ID_STORAGE_KEY, kioskId);
+	}
+	return kioskId;
+};
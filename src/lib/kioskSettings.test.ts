@@ -0,0 +1,20 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_KIOSK_SETTINGS, getKioskSettings, setKioskSettings } from "./kioskSettings";
+
+describe("setKioskSettings", () => {
+	beforeEach(() => localStorage.clear());
+
+	it("stores only the values that differ from the defaults", () => {
+		setKioskSettings({ ...DEFAULT_KIOSK_SETTINGS, sensorTimeout: 45 });
+
+		expect(JSON.parse(localStorage.getItem("kioskSettings") ?? "null")).toEqual({ sensorTimeout: 45 });
+		expect(getKioskSettings()).toEqual({ ...DEFAULT_KIOSK_SETTINGS, sensorTimeout: 45 });
+	});
+
+	it("drops the override once every value is back to its default", () => {
+		setKioskSettings({ sensorTimeout: 45 });
+		setKioskSettings({ ...DEFAULT_KIOSK_SETTINGS });
+
+		expect(localStorage.getItem("kioskSettings")).toBeNull();
+	});
+});
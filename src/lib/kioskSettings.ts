@@ -0,0 +1,74 @@
+import { t } from "./i18n";
+
+const SETTINGS_STORAGE_KEY = "kioskSettings";
+const MAX_SITE_NAME_LENGTH = 80;
+
+export type KioskSettings = {
+	// Shown on the home screen, e.g. "Шахта №2, КПП-1"
+	siteName: string;
+	// Valid readings needed before a multi-sample step counts as stable
+	stabilitySamples: number;
+	// Seconds a step waits for sensor data before giving up
+	sensorTimeout: number;
+	// Consecutive face recognition failures before the kiosk returns home
+	maxFaceErrors: number;
+	// Seconds the results screen stays up
+	resultsTimeout: number;
+	// Seconds without a touch before an abandoned screen returns home
+	idleTimeout: number;
+};
+
+export type NumericKioskSetting = Exclude<keyof KioskSettings, "siteName">;
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+	siteName: import.meta.env.VITE_SITE_NAME?.trim() || "",
+	stabilitySamples: 5,
+	sensorTimeout: 30,
+	maxFaceErrors: 3,
+	resultsTimeout: 7,
+	idleTimeout: 60,
+};
+
+export const KIOSK_SETTING_LIMITS: Record<NumericKioskSetting, { min: number; max: number }> = {
+	stabilitySamples: { min: 2, max: 20 },
+	sensorTimeout: { min: 5, max: 120 },
+	maxFaceErrors: { min: 1, max: 10 },
+	resultsTimeout: { min: 3, max: 60 },
+	idleTimeout: { min: 15, max: 600 },
+};
+
+// Writes only the values that differ from the defaults, so a kiosk keeps following every default it never changed
+export const storeOverrides = <T extends object>(storageKey: string, values: Partial<T> | null, defaults: T) => {
+	const overrides = Object.entries(values ?? {}).filter(([key, value]) => value !== defaults[key as keyof T]);
+	if (overrides.length > 0) localStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(overrides)));
+	else localStorage.removeItem(storageKey);
+};
+
+// Supervisor overrides from the admin console on top of the defaults
+export const getKioskSettings = (): KioskSettings => {
+	try {
+		const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "null");
+		return { ...DEFAULT_KIOSK_SETTINGS, ...stored };
+	} catch {
+		return DEFAULT_KIOSK_SETTINGS;
+	}
+};
+
+export const setKioskSettings = (settings: Partial<KioskSettings> | null) =>
+	storeOverrides(SETTINGS_STORAGE_KEY, settings, DEFAULT_KIOSK_SETTINGS);
+
+// Field → error message; empty when the settings are safe to store
+export const validateKioskSettings = (settings: KioskSettings) => {
+	const errors: Partial<Record<keyof KioskSettings, string>> = {};
+	(Object.keys(KIOSK_SETTING_LIMITS) as NumericKioskSetting[]).forEach((key) => {
+		const { min, max } = KIOSK_SETTING_LIMITS[key];
+		const value = settings[key];
+		if (!Number.isInteger(value) || value < min || value > max) {
+			errors[key] = t("admin.error.range", { min, max });
+		}
+	});
+	if (settings.siteName.length > MAX_SITE_NAME_LENGTH) {
+		errors.siteName = t("admin.error.siteNameLength", { max: MAX_SITE_NAME_LENGTH });
+	}
+	return errors;
+};
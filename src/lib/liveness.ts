@@ -0,0 +1,65 @@
+import { loadGrayFrame } from "./imageFrames";
+import type { MessageKey } from "./i18n";
+
+export type LivenessChallenge = "BLINK" | "TURN_LEFT" | "TURN_RIGHT";
+
+export const LIVENESS_PROMPTS: Record<LivenessChallenge, MessageKey> = {
+	BLINK: "liveness.BLINK",
+	TURN_LEFT: "liveness.TURN_LEFT",
+	TURN_RIGHT: "liveness.TURN_RIGHT",
+};
+
+// Frames collected per challenge and submitted together
+export const LIVENESS_FRAME_COUNT = 6;
+// Capture rate while a challenge is running; blinks are missed at 1 fps
+export const LIVENESS_FRAME_INTERVAL = 250;
+
+const SIGNATURE_SIZE = 32;
+// Mean per-pixel change between consecutive frames, 0..1
+const MIN_MOTION = 0.004;
+const MAX_MOTION = 0.25;
+
+export type FrameConsistency = {
+	minMotion: number;
+	maxMotion: number;
+	// Every frame was practically identical: a photo or a frozen screen
+	isStatic: boolean;
+	// A frame jumped too far from the previous one: the subject or camera changed mid-capture
+	hasDiscontinuity: boolean;
+	passed: boolean;
+};
+
+export type LivenessEvidence = {
+	challenge: LivenessChallenge;
+	frames: string[];
+	capturedAt: number[];
+	consistency: FrameConsistency;
+};
+
+export const pickChallenge = (previous?: LivenessChallenge): LivenessChallenge => {
+	const options = (Object.keys(LIVENESS_PROMPTS) as LivenessChallenge[]).filter(
+		(challenge) => challenge !== previous,
+	);
+	return options[Math.floor(Math.random() * options.length)];
+};
+
+// Downscaled grayscale fingerprint of a JPEG data URL
+export const frameSignature = async (dataUrl: string) =>
+	(await loadGrayFrame(dataUrl, SIGNATURE_SIZE)).pixels;
+
+const frameDifference = (a: Float32Array, b: Float32Array) => {
+	let total = 0;
+	for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+	return total / a.length;
+};
+
+// A cheap pre-filter before upload: it cannot tell whether the challenge was performed, so a match is only
+// accepted with the backend's liveness verdict
+export const assessConsistency = (signatures: Float32Array[]): FrameConsistency => {
+	const differences = signatures.slice(1).map((signature, index) => frameDifference(signatures[index], signature));
+	const minMotion = differences.length ? Math.min(...differences) : 0;
+	const maxMotion = differences.length ? Math.max(...differences) : 0;
+	const isStatic = maxMotion < MIN_MOTION;
+	const hasDiscontinuity = maxMotion > MAX_MOTION;
+	return { minMotion, maxMotion, isStatic, hasDiscontinuity, passed: !isStatic && !hasDiscontinuity };
+};
@@ -0,0 +1,252 @@
+import type { Catalogue } from "../i18n";
+
+export const en: Catalogue = {
+	"home.openDoor": "open the door",
+	"home.language": "Language",
+	"home.accessibility": "Large text and contrast",
+
+	"header.pendingUploads": "Not sent: {count}",
+
+	"common.retry": "Retry",
+	"common.noData": "No data",
+	"common.secondsLeft": "{count} seconds left",
+	"common.progress": "{percent}% done",
+	"common.save": "Save",
+	"common.check": "Test",
+	"common.back": "Back",
+	"common.cancel": "Cancel",
+
+	"face.title": "Face recognition",
+	"face.connecting": "Connecting to the camera...",
+	"face.checking": "Checking...",
+	"face.prompt": "Look at the camera to confirm your identity",
+	"face.repeatedErrors": "Several failures in a row. Try changing the lighting or the position of your face.",
+	"face.errorToast": "Error: {message}",
+	"face.notDetected": "No face in the frame. Make sure your face is in the centre of the frame and well lit.",
+	"face.notMatched":
+		"Your identity could not be confirmed. Make sure you are a registered user or contact the administration.",
+	"face.livenessFailed": "Could not confirm that a live person is in front of the camera. Follow the prompt on the screen.",
+	"face.recognitionError": "Face check failed. Please try again or contact the administration.",
+	"face.cameraUnavailable": "The camera is unavailable. Contact the administrator.",
+	"face.voicePrompt": "Look at the camera",
+
+	"camera.piNoFrames": "The Raspberry Pi camera is not sending frames",
+	"camera.piDisconnected": "Lost the connection to the Raspberry Pi camera",
+	"camera.noVideoElement": "The video element is unavailable",
+	"camera.accessDenied": "Camera access failed. Check the permissions.",
+	"camera.disconnected": "The camera was disconnected",
+	"camera.fileFailed": "Could not play the video file",
+
+	"quality.dark": "Too dark — move closer to the light",
+	"quality.overexposed": "Too bright — step away from the light source",
+	"quality.blurry": "The image is blurred — hold still",
+	"quality.offCentre": "Put your face in the centre of the frame",
+	"quality.tooFar": "Come closer to the camera",
+	"quality.noFace": "No face in the frame",
+	"quality.detectorUnavailable": "Face detection is unavailable on this kiosk. Please contact the administrator.",
+
+	"enroll.lookAtCamera": "Look straight at the camera",
+	"enroll.holdStill": "Great, hold still",
+	"enroll.shot": "Shot {count} of {total}",
+	"enroll.title": "Register an employee",
+	"enroll.employeeId": "Personnel number",
+	"enroll.name": "Full name",
+	"enroll.start": "Start capture",
+	"enroll.submitting": "Sending photos...",
+	"enroll.done": "Employee {name} registered",
+	"enroll.failed": "Could not register the face. Please try again.",
+
+	"liveness.BLINK": "👁 Blink a few times",
+	"liveness.TURN_LEFT": "⬅️ Slowly turn your head to the left",
+	"liveness.TURN_RIGHT": "➡️ Slowly turn your head to the right",
+
+	"confirm.greeting": "Hello, {name}!",
+	"confirm.yes": "That's me, continue",
+	"confirm.no": "That's not me",
+
+	"employee.shift": "Shift: {shift}",
+	"employee.number": "Employee No. {id}",
+
+	"steps.PULSE.title": "Measuring pulse",
+	"steps.PULSE.subtitle": "Keep your finger in place",
+	"steps.PULSE.label": "Pulse",
+	"steps.PULSE.unit": "BPM",
+	"steps.PULSE.timeout": "Lost connection to the pulse meter. Please try again.",
+	"steps.PULSE.voice": "Place your finger on the pulse sensor",
+	"steps.TEMPERATURE.title": "Measuring temperature",
+	"steps.TEMPERATURE.subtitle": "Keep your finger in place",
+	"steps.TEMPERATURE.label": "Temperature",
+	"steps.TEMPERATURE.unit": "°C",
+	"steps.TEMPERATURE.timeout": "Lost connection to the temperature sensor. Please try again.",
+	"steps.TEMPERATURE.voice": "Place your finger on the temperature sensor",
+	"steps.SPO2.title": "Measuring oxygen saturation",
+	"steps.SPO2.subtitle": "Keep your finger in place",
+	"steps.SPO2.label": "Saturation",
+	"steps.SPO2.unit": "%",
+	"steps.SPO2.timeout": "Lost connection to the pulse oximeter. Please try again.",
+	"steps.SPO2.voice": "Place your finger on the pulse oximeter",
+	"steps.BLOOD_PRESSURE.title": "Measuring blood pressure",
+	"steps.BLOOD_PRESSURE.subtitle": "Hold still until the measurement ends",
+	"steps.BLOOD_PRESSURE.label": "Blood pressure",
+	"steps.BLOOD_PRESSURE.unit": "mmHg",
+	"steps.BLOOD_PRESSURE.timeout": "Lost connection to the blood pressure monitor. Please try again.",
+	"steps.BLOOD_PRESSURE.voice": "Hold still until the blood pressure measurement ends",
+	"steps.ALCOHOL.title": "Measuring alcohol level",
+	"steps.ALCOHOL.subtitle": "Blow into the breathalyzer for 3-4 seconds",
+	"steps.ALCOHOL.label": "Alcohol level",
+	"steps.ALCOHOL.unit": "mg/L",
+	"steps.ALCOHOL.timeout": "The breath sample was not taken correctly, please try again.",
+	"steps.ALCOHOL.voice": "Blow into the breathalyzer for three to four seconds",
+
+	"alcohol.normal": "Sober",
+	"alcohol.warning": "Traces of alcohol",
+	"alcohol.fail": "Intoxicated",
+
+	"health.waitingSensor": "Waiting for the sensor...",
+	"health.pleaseWait": "Please wait...",
+	"health.submitting": "Sending results...",
+	"health.submitFailed": "Could not send the results",
+	"health.submitFailedToast": "Could not send the results. Please try again.",
+	"health.queuedOffline": "No connection to the server. The results are saved and will be sent later.",
+	"health.sensorsDisconnected": "No connection to the sensors",
+
+	"admission.missing": "No data: {steps}",
+	"admission.fever": "High temperature: {value}",
+	"admission.implausibleTemperature": "Implausible temperature: {value}",
+	"admission.alcoholFail": "Alcohol level above the limit: {value}",
+	"admission.alcoholWarning": "Traces of alcohol: {value}",
+	"admission.attempts": "Too many attempts: {attempt} of {max}",
+
+	"verdict.ALLOW": "Access granted",
+	"verdict.DENY": "Access denied",
+	"verdict.REVIEW": "Review required",
+
+	"results.title": "Check results",
+	"results.unlocking": "Opening the door...",
+	"results.unlocked": "The door is open, come through",
+	"results.unlockFailed": "Could not open the door: {error}",
+	"results.doorUnavailable": "No door is connected to this kiosk. Please contact security.",
+
+	"door.rejected": "The door controller rejected the command",
+	"door.noResponse": "The door controller did not respond",
+	"door.simulatedFailure": "Simulation: the door controller did not respond",
+
+	"kiosk.recovering": "Something went wrong. Restarting the kiosk…",
+	"kiosk.restartingIn": "Returning to the home screen in {count} s",
+
+	"supervisor.title": "Supervisor access",
+	"supervisor.pinMissing": "Supervisor PIN is not configured: VITE_SUPERVISOR_PIN must be 4 to 8 digits",
+	"supervisor.wrongPin": "Wrong PIN",
+	"supervisor.lockedOut": "Too many wrong attempts. Try again in {count} s",
+	"supervisor.home": "Home",
+
+	"admin.title": "Kiosk settings",
+	"admin.history": "Check history",
+	"admin.enroll": "Enrollment",
+	"admin.site": "Site",
+	"admin.siteName": "Site name",
+	"admin.siteId": "Site ID",
+	"admin.siteLocale": "Default language",
+	"admin.serverUrl": "Server address",
+	"admin.check": "Check",
+	"admin.stabilitySamples": "Readings to stabilise",
+	"admin.sensorTimeout": "Sensor wait, s",
+	"admin.maxFaceErrors": "Recognition errors before reset",
+	"admin.resultsTimeout": "Results shown for, s",
+	"admin.idleTimeout": "Return home when idle, s",
+	"admin.thresholds": "Admission thresholds",
+	"admin.maxTemperature": "Maximum temperature, °C",
+	"admin.minTemperature": "Minimum temperature, °C",
+	"admin.maxAttempts": "Attempts per day before supervisor review",
+	"admin.alcoholWarning": "Alcohol: warning, mg/L",
+	"admin.alcoholFail": "Alcohol: refuse, mg/L",
+	"admin.requireSober": "Refuse entry on any alcohol",
+	"admin.defaults": "Defaults",
+	"admin.exit": "Sign out",
+	"admin.invalid": "Check the highlighted fields",
+	"admin.saved": "Settings saved",
+	"admin.restored": "Defaults restored",
+	"admin.error.range": "Allowed from {min} to {max}",
+	"admin.error.siteNameLength": "At most {max} characters",
+	"admin.error.siteId": "Latin letters, digits, - and _",
+	"admin.error.serverUrl": "An address like http://host:3001",
+	"admin.error.minTemperature": "From 30 to 40 °C",
+	"admin.error.maxTemperature": "From 36 to 42 °C",
+	"admin.error.temperatureOrder": "Must be above the minimum",
+	"admin.error.maxAttempts": "A whole number from 1",
+	"admin.error.alcoholPositive": "Above 0 mg/L",
+	"admin.error.alcoholOrder": "Must be above the warning threshold",
+
+	"sound.title": "Sound",
+	"sound.muted": "Mute",
+	"sound.volume": "Volume: {percent}%",
+	"sound.saved": "Sound settings saved",
+
+	"cameraSettings.title": "Camera",
+	"cameraSettings.noSource": "Select at least one source",
+	"cameraSettings.noFile": "Enter the video file address",
+	"cameraSettings.saved": "Camera settings saved",
+	"cameraSettings.device": "Device",
+	"cameraSettings.defaultDevice": "Default (front-facing)",
+	"cameraSettings.deviceNumber": "Camera {index}",
+	"cameraSettings.file": "Video file",
+	"cameraSource.pi": "Raspberry Pi camera",
+	"cameraSource.device": "USB / built-in camera",
+	"cameraSource.file": "Video file",
+
+	"sensors.title": "Sensors",
+	"sensors.connected": "connected",
+	"sensors.disconnected": "disconnected",
+	"sensors.start": "Test sensors",
+	"sensors.stop": "Stop",
+	"sensors.waiting": "Waiting for events...",
+
+	"crashes.title": "Crashes",
+	"crashes.empty": "No crashes recorded",
+	"crashes.confirmClear": "Delete all crash records?",
+	"crashes.cleared": "Crash log cleared",
+	"crashes.clearFailed": "Could not clear the crash log",
+	"crashes.session": "Session: {id}",
+	"crashes.clear": "Clear",
+	"crashes.export": "Export",
+	"crashes.kind.render": "Screen",
+	"crashes.kind.uncaught": "Error",
+	"crashes.kind.rejection": "Promise",
+
+	"simulator.title": "Sensor simulator",
+	"simulator.off": "Off — real sensors",
+	"simulator.nextCheck": "Applies from the next check",
+	"simulator.hide": "Hide",
+
+	"history.title": "Check history",
+	"history.reportTitle": "Check history {from}–{to}",
+	"history.from": "From",
+	"history.to": "To",
+	"history.all": "All",
+	"history.reload": "Reload",
+	"history.loading": "Loading...",
+	"history.empty": "No checks in this period",
+	"history.attempt": "(attempt {count})",
+	"history.notSent": "Not sent",
+	"history.rangeMissing": "Enter the dates",
+	"history.rangeOrder": "The period starts after it ends",
+	"history.rangeTooLong": "At most {days} days",
+	"history.loadFailed": "Could not load the check history",
+	"history.summary.total": "Total",
+	"history.summary.passed": "Admitted",
+	"history.summary.failed": "Refused",
+	"history.summary.review": "Under review",
+	"history.summary.retried": "Retries",
+	"history.verdict.ALLOW": "Admitted",
+	"history.verdict.DENY": "Refused",
+	"history.verdict.REVIEW": "Under review",
+	"history.column.time": "Time",
+	"history.column.employee": "Employee",
+	"history.column.temperature": "Temperature",
+	"history.column.alcohol": "Alcohol",
+	"history.column.verdict": "Verdict",
+	"history.column.attempt": "Attempt",
+	"history.column.sent": "Sent",
+	"history.yes": "Yes",
+	"history.no": "No",
+};
@@ -0,0 +1,252 @@
+import type { Catalogue } from "../i18n";
+
+export const kk: Catalogue = {
+	"home.openDoor": "есікті ашу",
+	"home.language": "Тіл",
+	"home.accessibility": "Ірі мәтін және контраст",
+
+	"header.pendingUploads": "Жіберілмеген: {count}",
+
+	"common.retry": "Қайталау",
+	"common.noData": "Деректер жоқ",
+	"common.secondsLeft": "{count} секунд қалды",
+	"common.progress": "{percent}% дайын",
+	"common.save": "Сақтау",
+	"common.check": "Тексеру",
+	"common.back": "Артқа",
+	"common.cancel": "Болдырмау",
+
+	"face.title": "Бетті тану",
+	"face.connecting": "Камераға қосылудамыз...",
+	"face.checking": "Тексеру...",
+	"face.prompt": "Жеке басыңызды растау үшін камераға қараңыз",
+	"face.repeatedErrors": "Қатарынан бірнеше қате. Жарықты немесе беттің орнын өзгертіп көріңіз.",
+	"face.errorToast": "Қате: {message}",
+	"face.notDetected": "Кадрда бет анықталмады. Бетіңіз кадрдың ортасында және жақсы жарықтандырылғанына көз жеткізіңіз.",
+	"face.notMatched":
+		"Жеке басыңызды растау мүмкін болмады. Тіркелген пайдаланушы екеніңізге көз жеткізіңіз немесе әкімшілікке хабарласыңыз.",
+	"face.livenessFailed": "Камера алдында тірі адам тұрғанын растау мүмкін болмады. Экрандағы нұсқауды орындаңыз.",
+	"face.recognitionError": "Бетті тексеру кезінде қате шықты. Қайталап көріңіз немесе әкімшілікке хабарласыңыз.",
+	"face.cameraUnavailable": "Камера қолжетімсіз. Әкімшіге хабарласыңыз.",
+	"face.voicePrompt": "Камераға қараңыз",
+
+	"camera.piNoFrames": "Raspberry Pi камерасы кадр жібермейді",
+	"camera.piDisconnected": "Raspberry Pi камерасымен байланыс үзілді",
+	"camera.noVideoElement": "Бейне элементі қолжетімсіз",
+	"camera.accessDenied": "Камераға қол жеткізу қатесі. Рұқсаттарды тексеріңіз.",
+	"camera.disconnected": "Камера ажыратылды",
+	"camera.fileFailed": "Бейнефайлды ойнату мүмкін болмады",
+
+	"quality.dark": "Тым қараңғы — жарыққа жақынырақ тұрыңыз",
+	"quality.overexposed": "Тым жарық — жарық көзінен алыстаңыз",
+	"quality.blurry": "Сурет бұлыңғыр — қозғалмаңыз",
+	"quality.offCentre": "Бетіңізді кадрдың ортасына қойыңыз",
+	"quality.tooFar": "Камераға жақынырақ келіңіз",
+	"quality.noFace": "Кадрда бет табылмады",
+	"quality.detectorUnavailable": "Киоскте бетті анықтау қолжетімсіз. Әкімшіге хабарласыңыз.",
+
+	"enroll.lookAtCamera": "Камераға тура қараңыз",
+	"enroll.holdStill": "Тамаша, қозғалмаңыз",
+	"enroll.shot": "Сурет {count} / {total}",
+	"enroll.title": "Қызметкерді тіркеу",
+	"enroll.employeeId": "Табель нөмірі",
+	"enroll.name": "Аты-жөні",
+	"enroll.start": "Түсіруді бастау",
+	"enroll.submitting": "Суреттер жіберілуде...",
+	"enroll.done": "{name} қызметкері тіркелді",
+	"enroll.failed": "Бетті тіркеу мүмкін болмады. Қайталап көріңіз.",
+
+	"liveness.BLINK": "👁 Бірнеше рет көзіңізді жыпылықтатыңыз",
+	"liveness.TURN_LEFT": "⬅️ Басыңызды баяу солға бұрыңыз",
+	"liveness.TURN_RIGHT": "➡️ Басыңызды баяу оңға бұрыңыз",
+
+	"confirm.greeting": "Сәлеметсіз бе, {name}!",
+	"confirm.yes": "Бұл мен, жалғастыру",
+	"confirm.no": "Бұл мен емеспін",
+
+	"employee.shift": "Ауысым: {shift}",
+	"employee.number": "Таб. № {id}",
+
+	"steps.PULSE.title": "Тамыр соғуын өлшеу",
+	"steps.PULSE.subtitle": "Саусағыңызды орнында ұстаңыз",
+	"steps.PULSE.label": "Тамыр соғуы",
+	"steps.PULSE.unit": "BPM",
+	"steps.PULSE.timeout": "Пульсометрмен байланыс үзілді. Қайталап көріңіз.",
+	"steps.PULSE.voice": "Саусағыңызды пульс датчигіне қойыңыз",
+	"steps.TEMPERATURE.title": "Температураны өлшеу",
+	"steps.TEMPERATURE.subtitle": "Саусағыңызды орнында ұстаңыз",
+	"steps.TEMPERATURE.label": "Температура",
+	"steps.TEMPERATURE.unit": "°C",
+	"steps.TEMPERATURE.timeout": "Температура сенсорымен байланыс үзілді. Қайталап көріңіз.",
+	"steps.TEMPERATURE.voice": "Саусағыңызды температура датчигіне қойыңыз",
+	"steps.SPO2.title": "Сатурацияны өлшеу",
+	"steps.SPO2.subtitle": "Саусағыңызды орнында ұстаңыз",
+	"steps.SPO2.label": "Сатурация",
+	"steps.SPO2.unit": "%",
+	"steps.SPO2.timeout": "Пульсоксиметрмен байланыс үзілді. Қайталап көріңіз.",
+	"steps.SPO2.voice": "Саусағыңызды пульсоксиметрге қойыңыз",
+	"steps.BLOOD_PRESSURE.title": "Қан қысымын өлшеу",
+	"steps.BLOOD_PRESSURE.subtitle": "Өлшеу аяқталғанша қозғалмаңыз",
+	"steps.BLOOD_PRESSURE.label": "Қан қысымы",
+	"steps.BLOOD_PRESSURE.unit": "мм сын. бағ.",
+	"steps.BLOOD_PRESSURE.timeout": "Тонометрмен байланыс үзілді. Қайталап көріңіз.",
+	"steps.BLOOD_PRESSURE.voice": "Қысымды өлшеу аяқталғанша қозғалмаңыз",
+	"steps.ALCOHOL.title": "Алкоголь деңгейін өлшеу",
+	"steps.ALCOHOL.subtitle": "Алкотестерге 3-4 секунд үрлеңіз",
+	"steps.ALCOHOL.label": "Алкоголь деңгейі",
+	"steps.ALCOHOL.unit": "мг/л",
+	"steps.ALCOHOL.timeout": "Дұрыс үрлемедіңіз, қайталап көріңіз.",
+	"steps.ALCOHOL.voice": "Алкотестерге үш-төрт секунд үрлеңіз",
+
+	"alcohol.normal": "Сау",
+	"alcohol.warning": "Алкоголь іздері",
+	"alcohol.fail": "Мас",
+
+	"health.waitingSensor": "Сенсорды күту...",
+	"health.pleaseWait": "Күте тұрыңыз...",
+	"health.submitting": "Нәтижелер жіберілуде...",
+	"health.submitFailed": "Нәтижелерді жіберу мүмкін болмады",
+	"health.submitFailedToast": "Нәтижелерді жіберу мүмкін болмады. Қайталап көріңіз.",
+	"health.queuedOffline": "Сервермен байланыс жоқ. Нәтижелер сақталды және кейінірек жіберіледі.",
+	"health.sensorsDisconnected": "Датчиктермен байланыс жоқ",
+
+	"admission.missing": "Деректер жоқ: {steps}",
+	"admission.fever": "Жоғары температура: {value}",
+	"admission.implausibleTemperature": "Күмәнді температура: {value}",
+	"admission.alcoholFail": "Алкогольдің рұқсат етілген деңгейі асып кетті: {value}",
+	"admission.alcoholWarning": "Алкоголь іздері: {value}",
+	"admission.attempts": "Әрекеттер саны асып кетті: {attempt} / {max}",
+
+	"verdict.ALLOW": "Кіруге рұқсат етілді",
+	"verdict.DENY": "Кіруге тыйым салынды",
+	"verdict.REVIEW": "Тексеру қажет",
+
+	"results.title": "Тексеру нәтижелері",
+	"results.unlocking": "Есікті ашудамыз...",
+	"results.unlocked": "Есік ашық, өтіңіз",
+	"results.unlockFailed": "Есікті ашу мүмкін болмады: {error}",
+	"results.doorUnavailable": "Есік киоскіге қосылмаған. Күзетке хабарласыңыз.",
+
+	"door.rejected": "Есік контроллері пәрменді қабылдамады",
+	"door.noResponse": "Есік контроллері жауап бермеді",
+	"door.simulatedFailure": "Симуляция: есік контроллері жауап бермеді",
+
+	"kiosk.recovering": "Бірдеңе дұрыс болмады. Киоск қайта іске қосылуда…",
+	"kiosk.restartingIn": "Басты экранға {count} с кейін оралу",
+
+	"supervisor.title": "Супервайзерге кіру",
+	"supervisor.pinMissing": "Супервайзер PIN-коды бапталмаған: VITE_SUPERVISOR_PIN 4–8 цифрдан тұруы керек",
+	"supervisor.wrongPin": "PIN қате",
+	"supervisor.lockedOut": "Қате әрекеттер тым көп. {count} с кейін қайталаңыз",
+	"supervisor.home": "Басты бетке",
+
+	"admin.title": "Киоск баптаулары",
+	"admin.history": "Тексерулер журналы",
+	"admin.enroll": "Тіркеу",
+	"admin.site": "Нысан",
+	"admin.siteName": "Нысан атауы",
+	"admin.siteId": "Нысан ID",
+	"admin.siteLocale": "Әдепкі тіл",
+	"admin.serverUrl": "Сервер мекенжайы",
+	"admin.check": "Тексеру",
+	"admin.stabilitySamples": "Тұрақтануға қажет өлшемдер",
+	"admin.sensorTimeout": "Датчикті күту, сек",
+	"admin.maxFaceErrors": "Қалпына келтіруге дейінгі тану қателері",
+	"admin.resultsTimeout": "Нәтижелерді көрсету, сек",
+	"admin.idleTimeout": "Әрекетсіз басты бетке оралу, сек",
+	"admin.thresholds": "Рұқсат шектері",
+	"admin.maxTemperature": "Ең жоғары температура, °C",
+	"admin.minTemperature": "Ең төменгі температура, °C",
+	"admin.maxAttempts": "Супервайзер тексергенге дейінгі күндік әрекеттер",
+	"admin.alcoholWarning": "Алкоголь: ескерту, мг/л",
+	"admin.alcoholFail": "Алкоголь: рұқсат етпеу, мг/л",
+	"admin.requireSober": "Алкоголь болса жібермеу",
+	"admin.defaults": "Әдепкі мәндер",
+	"admin.exit": "Шығу",
+	"admin.invalid": "Белгіленген өрістерді тексеріңіз",
+	"admin.saved": "Баптаулар сақталды",
+	"admin.restored": "Әдепкі мәндер қалпына келтірілді",
+	"admin.error.range": "Рұқсат етілген аралық: {min}–{max}",
+	"admin.error.siteNameLength": "{max} таңбадан аспауы керек",
+	"admin.error.siteId": "Латын әріптері, сандар, «-» және «_»",
+	"admin.error.serverUrl": "http://host:3001 түріндегі мекенжай",
+	"admin.error.minTemperature": "Аралық: 30–40 °C",
+	"admin.error.maxTemperature": "Аралық: 36–42 °C",
+	"admin.error.temperatureOrder": "Ең төменгі мәннен жоғары болуы керек",
+	"admin.error.maxAttempts": "1-ден бастап бүтін сан",
+	"admin.error.alcoholPositive": "0 мг/л-ден көп",
+	"admin.error.alcoholOrder": "Ескерту шегінен жоғары болуы керек",
+
+	"sound.title": "Дыбыс",
+	"sound.muted": "Дыбыссыз",
+	"sound.volume": "Дыбыс деңгейі: {percent}%",
+	"sound.saved": "Дыбыс баптаулары сақталды",
+
+	"cameraSettings.title": "Камера",
+	"cameraSettings.noSource": "Кемінде бір көзді таңдаңыз",
+	"cameraSettings.noFile": "Бейнефайл мекенжайын көрсетіңіз",
+	"cameraSettings.saved": "Камера баптаулары сақталды",
+	"cameraSettings.device": "Құрылғы",
+	"cameraSettings.defaultDevice": "Әдепкі (алдыңғы)",
+	"cameraSettings.deviceNumber": "Камера {index}",
+	"cameraSettings.file": "Бейнефайл",
+	"cameraSource.pi": "Raspberry Pi камерасы",
+	"cameraSource.device": "USB / кіріктірілген камера",
+	"cameraSource.file": "Бейнефайл",
+
+	"sensors.title": "Датчиктер",
+	"sensors.connected": "байланыста",
+	"sensors.disconnected": "байланыс жоқ",
+	"sensors.start": "Датчиктерді тексеру",
+	"sensors.stop": "Тоқтату",
+	"sensors.waiting": "Оқиғаларды күту...",
+
+	"crashes.title": "Ақаулар",
+	"crashes.empty": "Ақаулар тіркелмеген",
+	"crashes.confirmClear": "Ақаулар туралы барлық жазбаны жою керек пе?",
+	"crashes.cleared": "Ақаулар журналы тазартылды",
+	"crashes.clearFailed": "Ақаулар журналын тазарту мүмкін болмады",
+	"crashes.session": "Сессия: {id}",
+	"crashes.clear": "Тазарту",
+	"crashes.export": "Экспорт",
+	"crashes.kind.render": "Экран",
+	"crashes.kind.uncaught": "Қате",
+	"crashes.kind.rejection": "Промис",
+
+	"simulator.title": "Датчиктер симуляторы",
+	"simulator.off": "Өшірулі — нақты датчиктер",
+	"simulator.nextCheck": "Келесі тексеруден бастап қолданылады",
+	"simulator.hide": "Жасыру",
+
+	"history.title": "Тексерулер журналы",
+	"history.reportTitle": "Тексерулер журналы {from}–{to}",
+	"history.from": "Бастап",
+	"history.to": "Дейін",
+	"history.all": "Барлығы",
+	"history.reload": "Жаңарту",
+	"history.loading": "Жүктелуде...",
+	"history.empty": "Бұл кезеңде тексерулер жоқ",
+	"history.attempt": "({count}-әрекет)",
+	"history.notSent": "Жіберілмеген",
+	"history.rangeMissing": "Күндерді көрсетіңіз",
+	"history.rangeOrder": "Кезеңнің басы соңынан кейін",
+	"history.rangeTooLong": "{days} күннен аспауы керек",
+	"history.loadFailed": "Тексерулер журналын жүктеу мүмкін болмады",
+	"history.summary.total": "Барлығы",
+	"history.summary.passed": "Жіберілді",
+	"history.summary.failed": "Жіберілмеді",
+	"history.summary.review": "Тексеруде",
+	"history.summary.retried": "Қайталанған",
+	"history.verdict.ALLOW": "Жіберілді",
+	"history.verdict.DENY": "Жіберілмеді",
+	"history.verdict.REVIEW": "Тексеруде",
+	"history.column.time": "Уақыт",
+	"history.column.employee": "Қызметкер",
+	"history.column.temperature": "Температура",
+	"history.column.alcohol": "Алкоголь",
+	"history.column.verdict": "Шешім",
+	"history.column.attempt": "Әрекет",
+	"history.column.sent": "Серверге жіберілді",
+	"history.yes": "Иә",
+	"history.no": "Жоқ",
+};
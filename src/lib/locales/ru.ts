@@ -0,0 +1,252 @@
+// Source catalogue: every other language must provide exactly these keys
+export const ru = {
+	"home.openDoor": "открыть дверь",
+	"home.language": "Язык",
+	"home.accessibility": "Крупный текст и контраст",
+
+	"header.pendingUploads": "Не отправлено: {count}",
+
+	"common.retry": "Повторить",
+	"common.noData": "Нет данных",
+	"common.secondsLeft": "Осталось {count} секунд",
+	"common.progress": "Готово на {percent}%",
+	"common.save": "Сохранить",
+	"common.check": "Проверить",
+	"common.back": "Назад",
+	"common.cancel": "Отмена",
+
+	"face.title": "Распознавание лица",
+	"face.connecting": "Подключаемся к камере...",
+	"face.checking": "Проверка...",
+	"face.prompt": "Сканируйте своё лицо для подтверждения",
+	"face.repeatedErrors": "Несколько ошибок подряд. Попробуйте изменить освещение или положение лица.",
+	"face.errorToast": "Ошибка: {message}",
+	"face.notDetected":
+		"Лицо не обнаружено в кадре. Пожалуйста, убедитесь, что ваше лицо находится в центре кадра и хорошо освещено.",
+	"face.notMatched":
+		"Не удалось подтвердить личность. Пожалуйста, убедитесь, что вы зарегистрированный пользователь или свяжитесь с администрацией.",
+	"face.livenessFailed": "Не удалось подтвердить, что перед камерой живой человек. Следуйте подсказке на экране.",
+	"face.recognitionError": "Ошибка при проверке лица. Пожалуйста, попробуйте снова или свяжитесь с администрацией.",
+	"face.cameraUnavailable": "Камера недоступна. Обратитесь к администратору.",
+	"face.voicePrompt": "Посмотрите в камеру",
+
+	"camera.piNoFrames": "Камера Raspberry Pi не передаёт кадры",
+	"camera.piDisconnected": "Соединение с камерой Raspberry Pi потеряно",
+	"camera.noVideoElement": "Видеоэлемент недоступен",
+	"camera.accessDenied": "Ошибка доступа к камере. Проверьте разрешения.",
+	"camera.disconnected": "Камера отключена",
+	"camera.fileFailed": "Не удалось воспроизвести видеофайл",
+
+	"quality.dark": "Слишком темно — встаньте ближе к свету",
+	"quality.overexposed": "Слишком ярко — отойдите от источника света",
+	"quality.blurry": "Изображение размыто — не двигайтесь",
+	"quality.offCentre": "Поместите лицо в центр кадра",
+	"quality.tooFar": "Подойдите ближе к камере",
+	"quality.noFace": "Лицо не найдено в кадре",
+	"quality.detectorUnavailable": "Распознавание лица на киоске недоступно. Обратитесь к администратору.",
+
+	"enroll.lookAtCamera": "Смотрите прямо в камеру",
+	"enroll.holdStill": "Отлично, не двигайтесь",
+	"enroll.shot": "Снимок {count} из {total}",
+	"enroll.title": "Регистрация сотрудника",
+	"enroll.employeeId": "Табельный номер",
+	"enroll.name": "ФИО",
+	"enroll.start": "Начать съёмку",
+	"enroll.submitting": "Отправка снимков...",
+	"enroll.done": "Сотрудник {name} зарегистрирован",
+	"enroll.failed": "Не удалось зарегистрировать лицо. Попробуйте снова.",
+
+	"liveness.BLINK": "👁 Моргните несколько раз",
+	"liveness.TURN_LEFT": "⬅️ Медленно поверните голову влево",
+	"liveness.TURN_RIGHT": "➡️ Медленно поверните голову вправо",
+
+	"confirm.greeting": "Здравствуйте, {name}!",
+	"confirm.yes": "Это я, продолжить",
+	"confirm.no": "Это не я",
+
+	"employee.shift": "Смена: {shift}",
+	"employee.number": "Таб. № {id}",
+
+	"steps.PULSE.title": "Измерение пульса",
+	"steps.PULSE.subtitle": "Держите палец на месте",
+	"steps.PULSE.label": "Пульс",
+	"steps.PULSE.unit": "BPM",
+	"steps.PULSE.timeout": "Сбой связи с пульсометром. Попробуйте снова.",
+	"steps.PULSE.voice": "Приложите палец к датчику пульса",
+	"steps.TEMPERATURE.title": "Измерение температуры",
+	"steps.TEMPERATURE.subtitle": "Держите палец на месте",
+	"steps.TEMPERATURE.label": "Температура",
+	"steps.TEMPERATURE.unit": "°C",
+	"steps.TEMPERATURE.timeout": "Сбой связи с сенсором температуры. Попробуйте снова.",
+	"steps.TEMPERATURE.voice": "Приложите палец к датчику температуры",
+	"steps.SPO2.title": "Измерение сатурации",
+	"steps.SPO2.subtitle": "Держите палец на месте",
+	"steps.SPO2.label": "Сатурация",
+	"steps.SPO2.unit": "%",
+	"steps.SPO2.timeout": "Сбой связи с пульсоксиметром. Попробуйте снова.",
+	"steps.SPO2.voice": "Приложите палец к пульсоксиметру",
+	"steps.BLOOD_PRESSURE.title": "Измерение давления",
+	"steps.BLOOD_PRESSURE.subtitle": "Не двигайтесь до окончания замера",
+	"steps.BLOOD_PRESSURE.label": "Давление",
+	"steps.BLOOD_PRESSURE.unit": "мм рт. ст.",
+	"steps.BLOOD_PRESSURE.timeout": "Сбой связи с тонометром. Попробуйте снова.",
+	"steps.BLOOD_PRESSURE.voice": "Не двигайтесь до окончания замера давления",
+	"steps.ALCOHOL.title": "Измерение уровня алкоголя",
+	"steps.ALCOHOL.subtitle": "Дуйте в алкотестер 3-4 секунды",
+	"steps.ALCOHOL.label": "Уровень алкоголя",
+	"steps.ALCOHOL.unit": "мг/л",
+	"steps.ALCOHOL.timeout": "Вы неправильно подули, повторите попытку.",
+	"steps.ALCOHOL.voice": "Дуйте в алкотестер три-четыре секунды",
+
+	"alcohol.normal": "Трезвый",
+	"alcohol.warning": "Следы алкоголя",
+	"alcohol.fail": "Пьяный",
+
+	"health.waitingSensor": "Ожидание сенсора...",
+	"health.pleaseWait": "Пожалуйста, подождите...",
+	"health.submitting": "Отправка результатов...",
+	"health.submitFailed": "Не удалось отправить результаты",
+	"health.submitFailedToast": "Не удалось отправить результаты. Попробуйте снова.",
+	"health.queuedOffline": "Нет связи с сервером. Результаты сохранены и будут отправлены позже.",
+	"health.sensorsDisconnected": "Нет связи с датчиками",
+
+	"admission.missing": "Нет данных: {steps}",
+	"admission.fever": "Повышенная температура: {value}",
+	"admission.implausibleTemperature": "Недостоверная температура: {value}",
+	"admission.alcoholFail": "Превышен допустимый уровень алкоголя: {value}",
+	"admission.alcoholWarning": "Следы алкоголя: {value}",
+	"admission.attempts": "Превышено число попыток: {attempt} из {max}",
+
+	"verdict.ALLOW": "Доступ разрешён",
+	"verdict.DENY": "Доступ запрещён",
+	"verdict.REVIEW": "Требуется проверка",
+
+	"results.title": "Результаты проверки",
+	"results.unlocking": "Открываем дверь...",
+	"results.unlocked": "Дверь открыта, проходите",
+	"results.unlockFailed": "Не удалось открыть дверь: {error}",
+	"results.doorUnavailable": "Дверь не подключена к киоску. Обратитесь к охране.",
+
+	"door.rejected": "Контроллер двери отклонил команду",
+	"door.noResponse": "Контроллер двери не ответил",
+	"door.simulatedFailure": "Симуляция: контроллер двери не ответил",
+
+	"kiosk.recovering": "Что-то пошло не так. Перезапускаем киоск…",
+	"kiosk.restartingIn": "Возврат на главный экран через {count} с",
+
+	"supervisor.title": "Доступ супервизора",
+	"supervisor.pinMissing": "PIN супервизора не настроен: VITE_SUPERVISOR_PIN должен состоять из 4–8 цифр",
+	"supervisor.wrongPin": "Неверный PIN",
+	"supervisor.lockedOut": "Слишком много неверных попыток. Повторите через {count} с",
+	"supervisor.home": "На главную",
+
+	"admin.title": "Настройки киоска",
+	"admin.history": "Журнал проверок",
+	"admin.enroll": "Регистрация",
+	"admin.site": "Объект",
+	"admin.siteName": "Название объекта",
+	"admin.siteId": "ID объекта",
+	"admin.siteLocale": "Язык по умолчанию",
+	"admin.serverUrl": "Адрес сервера",
+	"admin.check": "Проверка",
+	"admin.stabilitySamples": "Замеров для стабилизации",
+	"admin.sensorTimeout": "Ожидание датчика, сек",
+	"admin.maxFaceErrors": "Ошибок распознавания до сброса",
+	"admin.resultsTimeout": "Показ результатов, сек",
+	"admin.idleTimeout": "Возврат на главный без действий, сек",
+	"admin.thresholds": "Пороги допуска",
+	"admin.maxTemperature": "Максимальная температура, °C",
+	"admin.minTemperature": "Минимальная температура, °C",
+	"admin.maxAttempts": "Попыток в день до проверки супервизором",
+	"admin.alcoholWarning": "Алкоголь: предупреждение, мг/л",
+	"admin.alcoholFail": "Алкоголь: отказ, мг/л",
+	"admin.requireSober": "Не допускать при алкоголе",
+	"admin.defaults": "По умолчанию",
+	"admin.exit": "Выйти",
+	"admin.invalid": "Проверьте выделенные поля",
+	"admin.saved": "Настройки сохранены",
+	"admin.restored": "Восстановлены значения по умолчанию",
+	"admin.error.range": "Допустимо от {min} до {max}",
+	"admin.error.siteNameLength": "Не длиннее {max} символов",
+	"admin.error.siteId": "Латиница, цифры, «-» и «_»",
+	"admin.error.serverUrl": "Адрес вида http://host:3001",
+	"admin.error.minTemperature": "От 30 до 40 °C",
+	"admin.error.maxTemperature": "От 36 до 42 °C",
+	"admin.error.temperatureOrder": "Должна быть выше минимальной",
+	"admin.error.maxAttempts": "Целое число от 1",
+	"admin.error.alcoholPositive": "Больше 0 мг/л",
+	"admin.error.alcoholOrder": "Должен быть выше порога предупреждения",
+
+	"sound.title": "Звук",
+	"sound.muted": "Без звука",
+	"sound.volume": "Громкость: {percent}%",
+	"sound.saved": "Настройки звука сохранены",
+
+	"cameraSettings.title": "Камера",
+	"cameraSettings.noSource": "Выберите хотя бы один источник",
+	"cameraSettings.noFile": "Укажите адрес видеофайла",
+	"cameraSettings.saved": "Настройки камеры сохранены",
+	"cameraSettings.device": "Устройство",
+	"cameraSettings.defaultDevice": "По умолчанию (фронтальная)",
+	"cameraSettings.deviceNumber": "Камера {index}",
+	"cameraSettings.file": "Видеофайл",
+	"cameraSource.pi": "Камера Raspberry Pi",
+	"cameraSource.device": "USB / встроенная камера",
+	"cameraSource.file": "Видеофайл",
+
+	"sensors.title": "Датчики",
+	"sensors.connected": "на связи",
+	"sensors.disconnected": "нет связи",
+	"sensors.start": "Проверить датчики",
+	"sensors.stop": "Остановить",
+	"sensors.waiting": "Ожидание событий...",
+
+	"crashes.title": "Сбои",
+	"crashes.empty": "Сбоев не зафиксировано",
+	"crashes.confirmClear": "Удалить все записи о сбоях?",
+	"crashes.cleared": "Журнал сбоев очищен",
+	"crashes.clearFailed": "Не удалось очистить журнал сбоев",
+	"crashes.session": "Сессия: {id}",
+	"crashes.clear": "Очистить",
+	"crashes.export": "Экспорт",
+	"crashes.kind.render": "Экран",
+	"crashes.kind.uncaught": "Ошибка",
+	"crashes.kind.rejection": "Промис",
+
+	"simulator.title": "Симулятор датчиков",
+	"simulator.off": "Выкл — реальные датчики",
+	"simulator.nextCheck": "Применяется со следующей проверки",
+	"simulator.hide": "Скрыть",
+
+	"history.title": "Журнал проверок",
+	"history.reportTitle": "Журнал проверок {from}–{to}",
+	"history.from": "С",
+	"history.to": "По",
+	"history.all": "Все",
+	"history.reload": "Обновить",
+	"history.loading": "Загрузка...",
+	"history.empty": "Проверок за период нет",
+	"history.attempt": "(попытка {count})",
+	"history.notSent": "Не отправлено",
+	"history.rangeMissing": "Укажите даты",
+	"history.rangeOrder": "Начало периода позже конца",
+	"history.rangeTooLong": "Не больше {days} дней",
+	"history.loadFailed": "Не удалось загрузить журнал проверок",
+	"history.summary.total": "Всего",
+	"history.summary.passed": "Допущено",
+	"history.summary.failed": "Не допущено",
+	"history.summary.review": "На проверке",
+	"history.summary.retried": "Повторных",
+	"history.verdict.ALLOW": "Допущен",
+	"history.verdict.DENY": "Не допущен",
+	"history.verdict.REVIEW": "На проверке",
+	"history.column.time": "Время",
+	"history.column.employee": "Сотрудник",
+	"history.column.temperature": "Температура",
+	"history.column.alcohol": "Алкоголь",
+	"history.column.verdict": "Решение",
+	"history.column.attempt": "Попытка",
+	"history.column.sent": "Отправлено",
+	"history.yes": "Да",
+	"history.no": "Нет",
+} as const;
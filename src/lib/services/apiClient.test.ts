@@ -0,0 +1,48 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { Server } from "socket.io";
+import { apiClient } from "./apiClient";
+
+// Resolves with the auth payload of the first socket that connects to a throwaway socket.io server
+const captureHandshake = async (connect: (url: string) => () => void) => {
+	const server = createServer();
+	const io = new Server(server);
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	let disconnect = () => {};
+	try {
+		const auth = new Promise<Record<string, unknown>>((resolve) =>
+			io.on("connection", (socket) => resolve(socket.handshake.auth)),
+		);
+		disconnect = connect(url);
+		return await auth;
+	} finally {
+		disconnect();
+		await new Promise((resolve) => io.close(resolve));
+	}
+};
+
+describe("apiClient.createSocket", () => {
+	afterEach(() => apiClient.setServerUrl(null));
+
+	it("sends the API token in the handshake of a WebSocket-only connection", async () => {
+		const auth = await captureHandshake((url) => {
+			apiClient.configure({ baseUrl: url, headers: { Authorization: "Bearer secret-token" } });
+			const socket = apiClient.createSocket({ transports: ["websocket"], reconnection: false });
+			return () => socket.disconnect();
+		});
+
+		expect(auth).toEqual({ token: "secret-token" });
+	});
+
+	it("leaves the handshake empty without a token", async () => {
+		const auth = await captureHandshake((url) => {
+			apiClient.configure({ baseUrl: url });
+			const socket = apiClient.createSocket({ transports: ["websocket"], reconnection: false });
+			return () => socket.disconnect();
+		});
+
+		expect(auth).toEqual({});
+	});
+});
@@ -0,0 +1,190 @@
+import { io, type Socket, type ManagerOptions, type SocketOptions } from "socket.io-client";
+
+const DEFAULT_SERVER_URL = "http://localhost:3001";
+const SERVER_URL_STORAGE_KEY = "serverUrl";
+const SERVER_URL_QUERY_PARAM = "server";
+
+export type ApiTimeouts = {
+	default: number;
+	verifyFace: number;
+	health: number;
+	probe: number;
+};
+
+export type ApiConfig = {
+	baseUrl: string;
+	socketUrl: string;
+	timeouts: ApiTimeouts;
+	headers: Record<string, string>;
+};
+
+export type RequestOptions = {
+	timeout?: number;
+	headers?: Record<string, string>;
+	signal?: AbortSignal;
+};
+
+export class ApiError extends Error {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		public readonly path?: string,
+		// Parsed JSON of an error response, when the server sent one
+		public readonly body?: unknown,
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+// Error bodies are optional and not always JSON (e.g. a proxy's HTML error page)
+const parseBody = (text: string): unknown => {
+	try {
+		return text ? JSON.parse(text) : undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+const defaultServerUrl = () => trimSlash(import.meta.env.VITE_SERVER_URL?.trim() || DEFAULT_SERVER_URL);
+
+// Runtime override order: ?server=… query param (dev server only, never persisted), then the admin screen's
+// localStorage value, then .env. Anyone at the kiosk can edit the URL, so it must not redirect production traffic
+const resolveServerUrl = (): string => {
+	if (typeof window !== "undefined") {
+		const fromQuery = import.meta.env.DEV
+			? new URLSearchParams(window.location.search).get(SERVER_URL_QUERY_PARAM)
+			: null;
+		if (fromQuery) return trimSlash(fromQuery);
+		const fromStorage = localStorage.getItem(SERVER_URL_STORAGE_KEY);
+		if (fromStorage) return trimSlash(fromStorage);
+	}
+	return defaultServerUrl();
+};
+
+const resolveHeaders = (): Record<string, string> => {
+	const token = import.meta.env.VITE_API_TOKEN?.trim();
+	return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const createDefaultConfig = (): ApiConfig => {
+	const serverUrl = resolveServerUrl();
+	return {
+		baseUrl: serverUrl,
+		socketUrl: trimSlash(import.meta.env.VITE_SOCKET_URL?.trim() || serverUrl),
+		timeouts: {
+			default: 10000,
+			verifyFace: 15000,
+			health: 10000,
+			probe: 3000,
+		},
+		headers: resolveHeaders(),
+	};
+};
+
+class ApiClient {
+	private config: ApiConfig = createDefaultConfig();
+
+	getConfig(): ApiConfig {
+		return this.config;
+	}
+
+	configure(updates: Partial<Omit<ApiConfig, "timeouts">> & { timeouts?: Partial<ApiTimeouts> }) {
+		this.config = {
+			...this.config,
+			...updates,
+			baseUrl: trimSlash(updates.baseUrl ?? this.config.baseUrl),
+			socketUrl: trimSlash(updates.socketUrl ?? updates.baseUrl ?? this.config.socketUrl),
+			timeouts: { ...this.config.timeouts, ...updates.timeouts },
+			headers: { ...this.config.headers, ...updates.headers },
+		};
+	}
+
+	// Persists a server URL override so the kiosk can be pointed at another gateway or a mock server; the build's
+	// own URL is not stored, so the kiosk follows it if it changes
+	setServerUrl(url: string | null) {
+		if (url && trimSlash(url) !== defaultServerUrl()) {
+			localStorage.setItem(SERVER_URL_STORAGE_KEY, url);
+			this.configure({ baseUrl: url, socketUrl: url });
+		} else {
+			localStorage.removeItem(SERVER_URL_STORAGE_KEY);
+			this.config = createDefaultConfig();
+		}
+	}
+
+	url(path: string): string {
+		if (/^https?:\/\//.test(path)) return path;
+		return `${this.config.baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
+	}
+
+	async request<T>(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+		const controller = new AbortController();
+		const timeout = options.timeout ?? this.config.timeouts.default;
+		const timer = setTimeout(() => controller.abort(), timeout);
+		const abort = () => controller.abort();
+		options.signal?.addEventListener("abort", abort);
+
+		try {
+			const response = await fetch(this.url(path), {
+				...init,
+				headers: {
+					...(init.body ? { "Content-Type": "application/json" } : {}),
+					...this.config.headers,
+					...options.headers,
+				},
+				signal: controller.signal,
+			});
+
+			const text = await response.text();
+			if (!response.ok) {
+				throw new ApiError(`Request failed with status ${response.status}`, response.status, path, parseBody(text));
+			}
+			return (text ? JSON.parse(text) : undefined) as T;
+		} catch (error) {
+			if (error instanceof ApiError) throw error;
+			if (controller.signal.aborted) {
+				throw new ApiError(`Request timed out after ${timeout}ms`, undefined, path);
+			}
+			throw new ApiError(error instanceof Error ? error.message : "Network error", undefined, path);
+		} finally {
+			clearTimeout(timer);
+			options.signal?.removeEventListener("abort", abort);
+		}
+	}
+
+	get<T>(path: string, options?: RequestOptions): Promise<T> {
+		return this.request<T>(path, { method: "GET" }, options);
+	}
+
+	post<T>(path: string, body: unknown, options?: RequestOptions): Promise<T> {
+		return this.request<T>(path, { method: "POST", body: JSON.stringify(body) }, options);
+	}
+
+	// Resolves true when the gateway answers at all, regardless of status code
+	async probe(timeout = this.config.timeouts.probe): Promise<boolean> {
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), timeout);
+		try {
+			await fetch(this.config.baseUrl, { headers: this.config.headers, signal: controller.signal });
+			return true;
+		} catch {
+			return false;
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	// Browsers drop extraHeaders on WebSocket, so the token also travels in the handshake's auth payload
+	createSocket(options: Partial<ManagerOptions & SocketOptions> = {}): Socket {
+		const token = /^Bearer (.+)$/.exec(this.config.headers.Authorization ?? "")?.[1];
+		return io(this.config.socketUrl, {
+			extraHeaders: this.config.headers,
+			...(token ? { auth: { token } } : {}),
+			...options,
+		});
+	}
+}
+
+export const apiClient = new ApiClient();
@@ -0,0 +1,138 @@
+import { i18n, translate, type Locale, type MessageKey, type MessageParams } from "../i18n";
+import { logger } from "./logger";
+
+const kioskLog = logger.category("kiosk");
+
+const SETTINGS_STORAGE_KEY = "audioSettings";
+
+export type AudioSettings = {
+	// 0..1, applied to both speech and tones
+	volume: number;
+	muted: boolean;
+};
+
+export type ToneKind = "step" | "success" | "failure";
+
+type Note = { frequency: number; duration: number };
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.8, muted: false };
+
+// Rising for progress, falling and low for problems, so the meaning carries without looking at the screen
+const TONES: Record<ToneKind, Note[]> = {
+	step: [{ frequency: 880, duration: 0.12 }],
+	success: [
+		{ frequency: 660, duration: 0.12 },
+		{ frequency: 990, duration: 0.2 },
+	],
+	failure: [
+		{ frequency: 330, duration: 0.2 },
+		{ frequency: 220, duration: 0.35 },
+	],
+};
+
+const SPEECH_LANGUAGES: Record<Locale, string> = { ru: "ru-RU", kk: "kk-KZ", en: "en-US" };
+
+export const getAudioSettings = (): AudioSettings => {
+	try {
+		const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "null");
+		return { ...DEFAULT_AUDIO_SETTINGS, ...stored };
+	} catch {
+		return DEFAULT_AUDIO_SETTINGS;
+	}
+};
+
+export const setAudioSettings = (settings: AudioSettings | null) => {
+	if (settings) localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+	else localStorage.removeItem(SETTINGS_STORAGE_KEY);
+};
+
+// Spoken instructions and tones for workers who are not looking at the screen.
+// Pre-recorded clips at `${VITE_VOICE_CLIPS_URL}/<locale>/<key>.mp3` win over the browser's offline speech synthesis.
+class AudioFeedback {
+	private context: AudioContext | null = null;
+	private clip: HTMLAudioElement | null = null;
+
+	speak(key: MessageKey, params?: MessageParams, { volume, muted } = getAudioSettings()) {
+		if (muted || volume <= 0) return;
+		this.stopSpeech();
+
+		const locale = i18n.get();
+		const text = translate(locale, key, params);
+		const clipsUrl = import.meta.env.VITE_VOICE_CLIPS_URL?.replace(/\/+$/, "");
+		// A clip cannot carry interpolated values, so parametrised messages are always synthesised
+		if (!clipsUrl || params) {
+			this.synthesize(text, locale, volume);
+			return;
+		}
+
+		const clip = new Audio(`${clipsUrl}/${locale}/${key}.mp3`);
+		clip.volume = volume;
+		this.clip = clip;
+		clip.play().catch((error) => {
+			if (this.clip !== clip) return;
+			kioskLog.warn(`Voice clip ${locale}/${key} unavailable, synthesising instead`, error);
+			this.clip = null;
+			this.synthesize(text, locale, volume);
+		});
+	}
+
+	tone(kind: ToneKind, { volume, muted } = getAudioSettings()) {
+		if (muted || volume <= 0) return;
+		const context = this.getContext();
+		if (!context) return;
+
+		let at = context.currentTime;
+		TONES[kind].forEach(({ frequency, duration }) => {
+			const oscillator = context.createOscillator();
+			const gain = context.createGain();
+			oscillator.type = "sine";
+			oscillator.frequency.value = frequency;
+			// Short fade-out avoids the click of a hard stop
+			gain.gain.setValueAtTime(volume * 0.4, at);
+			gain.gain.exponentialRampToValueAtTime(0.001, at + duration);
+			oscillator.connect(gain).connect(context.destination);
+			oscillator.start(at);
+			oscillator.stop(at + duration);
+			at += duration + 0.03;
+		});
+	}
+
+	stopSpeech() {
+		if (this.clip) {
+			this.clip.pause();
+			this.clip = null;
+		}
+		if (typeof speechSynthesis !== "undefined") speechSynthesis.cancel();
+	}
+
+	private synthesize(text: string, locale: Locale, volume: number) {
+		if (typeof speechSynthesis === "undefined") return;
+		const language = SPEECH_LANGUAGES[locale];
+		const voice = speechSynthesis
+			.getVoices()
+			.find((candidate) => candidate.lang.replace("_", "-").toLowerCase().startsWith(locale));
+		// Reading Kazakh with a Russian or English voice is worse than the tones alone
+		if (!voice) {
+			kioskLog.warn(`No ${language} voice installed, skipping speech`);
+			return;
+		}
+
+		const utterance = new SpeechSynthesisUtterance(text);
+		utterance.lang = language;
+		utterance.voice = voice;
+		utterance.volume = volume;
+		speechSynthesis.speak(utterance);
+	}
+
+	private getContext() {
+		if (!this.context) {
+			if (typeof AudioContext === "undefined") return null;
+			this.context = new AudioContext();
+		}
+		// Browsers start the context suspended until a user gesture; the Home button press is one
+		if (this.context.state === "suspended") this.context.resume().catch(() => undefined);
+		return this.context;
+	}
+}
+
+export const audioFeedback = new AudioFeedback();
@@ -0,0 +1,254 @@
+import type { Socket } from "socket.io-client";
+import { t, type MessageKey } from "../i18n";
+import { apiClient } from "./apiClient";
+import { logger } from "./logger";
+
+// The Pi camera must deliver its first frame within this window, or the source counts as dead
+const FIRST_FRAME_TIMEOUT = 5000;
+const PRIORITY_STORAGE_KEY = "cameraPriority";
+const DEVICE_ID_STORAGE_KEY = "cameraDeviceId";
+const FILE_URL_STORAGE_KEY = "cameraFileUrl";
+const DEFAULT_PRIORITY: CameraSourceKind[] = ["pi", "device"];
+
+const cameraLog = logger.category("camera");
+
+export type CameraSourceKind = "pi" | "device" | "file";
+
+export const CAMERA_SOURCE_LABELS: Record<CameraSourceKind, MessageKey> = {
+	pi: "cameraSource.pi",
+	device: "cameraSource.device",
+	file: "cameraSource.file",
+};
+
+export type CameraCallbacks = {
+	// Frames pushed by sources that do not render into the video element
+	onFrame: (imageData: string) => void;
+	// The source died after starting; the hook fails over to the next one
+	onError: (message: string) => void;
+};
+
+export class CameraError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CameraError";
+	}
+}
+
+export interface CameraSource {
+	readonly kind: CameraSourceKind;
+	// "video" sources play into the <video> element and are sampled by the hook; "push" sources emit JPEG frames
+	readonly delivery: "video" | "push";
+	probe(): Promise<boolean>;
+	start(video: HTMLVideoElement | null, callbacks: CameraCallbacks): Promise<void>;
+	stop(): void;
+}
+
+// Raspberry Pi camera streamed by the gateway over socket.io
+export class PiSocketCameraSource implements CameraSource {
+	readonly kind = "pi";
+	readonly delivery = "push";
+	private socket: Socket | null = null;
+
+	probe() {
+		return apiClient.probe();
+	}
+
+	start(_video: HTMLVideoElement | null, { onFrame, onError }: CameraCallbacks) {
+		return new Promise<void>((resolve, reject) => {
+			let started = false;
+			const socket = apiClient.createSocket();
+			this.socket = socket;
+
+			const timer = window.setTimeout(() => {
+				this.stop();
+				reject(new CameraError(t("camera.piNoFrames")));
+			}, FIRST_FRAME_TIMEOUT);
+
+			socket.on("connect", () => {
+				cameraLog.info("Connected to Raspberry Pi camera");
+				socket.emit("start-camera");
+			});
+
+			socket.on("camera-frame", (data) => {
+				if (!data.success) return;
+				if (!started) {
+					started = true;
+					clearTimeout(timer);
+					resolve();
+				}
+				onFrame(data.image);
+			});
+
+			socket.on("camera-error", (errorMessage: string) => {
+				cameraLog.error("Raspberry Pi camera error", errorMessage);
+				if (started) {
+					onError(errorMessage);
+					return;
+				}
+				clearTimeout(timer);
+				this.stop();
+				reject(new CameraError(errorMessage));
+			});
+
+			socket.on("disconnect", () => {
+				cameraLog.info("Disconnected from Raspberry Pi camera");
+				if (started) onError(t("camera.piDisconnected"));
+			});
+		});
+	}
+
+	stop() {
+		if (!this.socket) return;
+		const socket = this.socket;
+		this.socket = null;
+		socket.off("disconnect");
+		socket.emit("stop-camera");
+		socket.disconnect();
+	}
+}
+
+// Browser camera through getUserMedia, optionally pinned to a specific USB device
+export class DeviceCameraSource implements CameraSource {
+	readonly kind = "device";
+	readonly delivery = "video";
+	private stream: MediaStream | null = null;
+
+	constructor(private readonly deviceId: string | null = null) {}
+
+	async probe() {
+		if (!navigator.mediaDevices?.getUserMedia) return false;
+		const devices = await listVideoDevices();
+		// Labels and IDs are hidden until permission is granted, so an unlabelled camera still counts
+		return devices.length > 0 && (!this.deviceId || devices.some((device) => !device.deviceId || device.deviceId === this.deviceId));
+	}
+
+	async start(video: HTMLVideoElement | null, { onError }: CameraCallbacks) {
+		if (!video) throw new CameraError(t("camera.noVideoElement"));
+		try {
+			this.stream = await navigator.mediaDevices.getUserMedia({
+				video: {
+					...(this.deviceId ? { deviceId: { exact: this.deviceId } } : { facingMode: "user" }),
+					width: { ideal: 640 },
+					height: { ideal: 480 },
+				},
+			});
+		} catch (err) {
+			cameraLog.error("Error accessing device camera", err);
+			throw new CameraError(t("camera.accessDenied"));
+		}
+
+		this.stream.getVideoTracks().forEach((track) => {
+			track.onended = () => onError(t("camera.disconnected"));
+		});
+		video.srcObject = this.stream;
+		await new Promise((resolve) => {
+			video.onloadedmetadata = resolve;
+		});
+		await video.play();
+	}
+
+	stop() {
+		this.stream?.getTracks().forEach((track) => {
+			track.onended = null;
+			track.stop();
+		});
+		this.stream = null;
+	}
+}
+
+// Looped recording, for demos and for kiosks without a working camera
+export class FileCameraSource implements CameraSource {
+	readonly kind = "file";
+	readonly delivery = "video";
+	private video: HTMLVideoElement | null = null;
+
+	constructor(private readonly url: string) {}
+
+	async probe() {
+		try {
+			return (await fetch(this.url, { method: "HEAD" })).ok;
+		} catch {
+			return false;
+		}
+	}
+
+	async start(video: HTMLVideoElement | null, { onError }: CameraCallbacks) {
+		if (!video) throw new CameraError(t("camera.noVideoElement"));
+		this.video = video;
+		video.srcObject = null;
+		video.loop = true;
+		video.onerror = () => onError(t("camera.fileFailed"));
+		video.src = this.url;
+		try {
+			await video.play();
+		} catch {
+			throw new CameraError(t("camera.fileFailed"));
+		}
+	}
+
+	stop() {
+		if (!this.video) return;
+		this.video.onerror = null;
+		this.video.pause();
+		this.video.removeAttribute("src");
+		this.video.load();
+		this.video = null;
+	}
+}
+
+export type CameraSettings = {
+	// Sources tried in order; later ones take over when an earlier one fails
+	priority: CameraSourceKind[];
+	deviceId: string | null;
+	fileUrl: string | null;
+};
+
+const isSourceKind = (value: string): value is CameraSourceKind => value in CAMERA_SOURCE_LABELS;
+
+const parsePriority = (raw: string | null | undefined) => {
+	const kinds = (raw ?? "").split(",").map((kind) => kind.trim()).filter(isSourceKind);
+	return kinds.length ? [...new Set(kinds)] : null;
+};
+
+// localStorage overrides (set from the admin console), then VITE_CAMERA_*
+export const getCameraSettings = (): CameraSettings => ({
+	priority:
+		parsePriority(localStorage.getItem(PRIORITY_STORAGE_KEY)) ??
+		parsePriority(import.meta.env.VITE_CAMERA_PRIORITY) ??
+		DEFAULT_PRIORITY,
+	deviceId: localStorage.getItem(DEVICE_ID_STORAGE_KEY) || import.meta.env.VITE_CAMERA_DEVICE_ID?.trim() || null,
+	fileUrl: localStorage.getItem(FILE_URL_STORAGE_KEY) || import.meta.env.VITE_CAMERA_FILE_URL?.trim() || null,
+});
+
+const storeSetting = (key: string, value: string | null) => {
+	if (value) localStorage.setItem(key, value);
+	else localStorage.removeItem(key);
+};
+
+export const setCameraSettings = (settings: Partial<CameraSettings>) => {
+	if (settings.priority !== undefined) storeSetting(PRIORITY_STORAGE_KEY, settings.priority.join(",") || null);
+	if (settings.deviceId !== undefined) storeSetting(DEVICE_ID_STORAGE_KEY, settings.deviceId);
+	if (settings.fileUrl !== undefined) storeSetting(FILE_URL_STORAGE_KEY, settings.fileUrl);
+};
+
+export const createCameraSource = (kind: CameraSourceKind, settings = getCameraSettings()): CameraSource | null => {
+	switch (kind) {
+		case "pi":
+			return new PiSocketCameraSource();
+		case "device":
+			return new DeviceCameraSource(settings.deviceId);
+		case "file":
+			return settings.fileUrl ? new FileCameraSource(settings.fileUrl) : null;
+	}
+};
+
+export const createCameraSources = (settings = getCameraSettings()) =>
+	settings.priority
+		.map((kind) => createCameraSource(kind, settings))
+		.filter((source): source is CameraSource => source !== null);
+
+export const listVideoDevices = async () => {
+	if (!navigator.mediaDevices?.enumerateDevices) return [];
+	const devices = await navigator.mediaDevices.enumerateDevices();
+	return devices.filter((device) => device.kind === "videoinput");
+};
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { AdmissionDecision } from "../admissionPolicy";
+import { checkSession, getSessionStage } from "./checkSession";
+
+const ALLOW: AdmissionDecision = { verdict: "ALLOW", reasons: [], evaluatedAt: 0 };
+
+describe("checkSession", () => {
+	afterEach(() => checkSession.reset());
+
+	it("moves from started to identified to completed", () => {
+		checkSession.begin(["TEMPERATURE"]);
+		expect(getSessionStage(checkSession.get()!)).toBe("started");
+
+		checkSession.identify("face-1", null);
+		expect(getSessionStage(checkSession.get()!)).toBe("identified");
+
+		checkSession.complete({ TEMPERATURE: 36.6 }, ALLOW);
+		expect(getSessionStage(checkSession.get()!)).toBe("completed");
+	});
+
+	it("drops the readings and verdict of an earlier check when a face is identified again", () => {
+		checkSession.begin(["TEMPERATURE"]);
+		checkSession.identify("face-1", null);
+		checkSession.complete({ TEMPERATURE: 38.5 }, { ...ALLOW, verdict: "DENY" });
+
+		checkSession.identify("face-2", null);
+
+		expect(checkSession.get()).toMatchObject({ faceId: "face-2", readings: {}, admission: null });
+		expect(getSessionStage(checkSession.get()!)).toBe("identified");
+	});
+});
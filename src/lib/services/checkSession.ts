@@ -0,0 +1,111 @@
+import type { AdmissionDecision } from "../admissionPolicy";
+import type { StepReadings } from "../healthCheckMachine";
+import { getStepSequence, type StepKey } from "../healthSteps";
+import type { EmployeeProfile } from "./faceRecognitionService";
+import { logger } from "./logger";
+
+const sessionLog = logger.category("session");
+
+// A session nobody finished within this window belongs to someone who walked away
+const MAX_SESSION_AGE = 10 * 60 * 1000;
+// Route handoff keys written by earlier builds; a stale value could be attributed to the next worker
+const LEGACY_STORAGE_KEYS = ["faceId", "finalTemperature", "finalAlcoholLevel"];
+
+export type CheckSession = {
+	id: string;
+	startedAt: number;
+	sequence: StepKey[];
+	// Set once the face is matched
+	faceId: string | null;
+	employee: EmployeeProfile | null;
+	readings: StepReadings;
+	// Set once the check has been evaluated and submitted
+	admission: AdmissionDecision | null;
+};
+
+// How far a session has progressed; each route requires a minimum stage
+export type SessionStage = "started" | "identified" | "completed";
+
+type Listener = (session: CheckSession | null) => void;
+
+const createSessionId = () =>
+	typeof crypto !== "undefined" && "randomUUID" in crypto
+		? crypto.randomUUID()
+		: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getSessionStage = (session: CheckSession): SessionStage =>
+	session.admission ? "completed" : session.faceId ? "identified" : "started";
+
+const STAGE_ORDER: SessionStage[] = ["started", "identified", "completed"];
+
+export const hasReachedStage = (session: CheckSession | null, stage: SessionStage) =>
+	session !== null && STAGE_ORDER.indexOf(getSessionStage(session)) >= STAGE_ORDER.indexOf(stage);
+
+// The one worker currently at the kiosk: begun on Home, reset when the kiosk returns there
+class CheckSessionStore {
+	private session: CheckSession | null = null;
+	private listeners = new Set<Listener>();
+
+	constructor() {
+		if (typeof localStorage !== "undefined") LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+	}
+
+	get(): CheckSession | null {
+		if (this.session && Date.now() - this.session.startedAt > MAX_SESSION_AGE) {
+			sessionLog.warn(`Check session ${this.session.id} expired`);
+			this.set(null);
+		}
+		return this.session;
+	}
+
+	subscribe(listener: Listener) {
+		this.listeners.add(listener);
+		listener(this.get());
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	begin(sequence: StepKey[] = getStepSequence()) {
+		const session: CheckSession = {
+			id: createSessionId(),
+			startedAt: Date.now(),
+			sequence,
+			faceId: null,
+			employee: null,
+			readings: {},
+			admission: null,
+		};
+		sessionLog.info(`Check session ${session.id} started`);
+		this.set(session);
+		return session;
+	}
+
+	// A new match starts the measurements over, so nothing from an earlier attempt can be attributed to this face
+	identify(faceId: string, employee: EmployeeProfile | null) {
+		this.update({ faceId, employee, readings: {}, admission: null });
+	}
+
+	complete(readings: StepReadings, admission: AdmissionDecision) {
+		this.update({ readings, admission });
+	}
+
+	reset() {
+		if (this.session) sessionLog.info(`Check session ${this.session.id} closed`);
+		this.set(null);
+	}
+
+	private update(changes: Partial<CheckSession>) {
+		const session = this.get();
+		if (!session) throw new Error("No active check session");
+		this.set({ ...session, ...changes });
+	}
+
+	private set(session: CheckSession | null) {
+		this.session = session;
+		logger.setSessionId(session?.id ?? null);
+		this.listeners.forEach((listener) => listener(session));
+	}
+}
+
+export const checkSession = new CheckSessionStore();
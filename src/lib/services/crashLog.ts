@@ -0,0 +1,142 @@
+import { getKioskId } from "../kioskIdentity";
+import { checkSession } from "./checkSession";
+import { openStore } from "./indexedDb";
+import { logger } from "./logger";
+
+const kioskLog = logger.category("kiosk");
+
+// Enough to cover several bad days without IndexedDB growing unnoticed on a kiosk nobody reboots
+const MAX_CRASH_RECORDS = 50;
+const MAX_SENSOR_EVENTS = 20;
+
+export type CrashKind = "render" | "uncaught" | "rejection";
+
+export type SensorEventBreadcrumb = {
+	at: number;
+	event: string;
+	data: unknown;
+};
+
+export type CrashRecord = {
+	id: string;
+	occurredAt: number;
+	kind: CrashKind;
+	message: string;
+	stack: string | null;
+	componentStack: string | null;
+	route: string;
+	sessionId: string | null;
+	kioskId: string;
+	// The last sensor gateway events before the crash, oldest first
+	sensorEvents: SensorEventBreadcrumb[];
+};
+
+type Listener = (records: CrashRecord[]) => void;
+
+const createCrashId = () =>
+	typeof crypto !== "undefined" && "randomUUID" in crypto
+		? crypto.randomUUID()
+		: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const describeError = (error: unknown) => {
+	if (error instanceof Error) return { message: error.message || error.name, stack: error.stack ?? null };
+	if (typeof error === "string") return { message: error, stack: null };
+	try {
+		return { message: JSON.stringify(error) ?? String(error), stack: null };
+	} catch {
+		return { message: String(error), stack: null };
+	}
+};
+
+// Bounded on-kiosk record of crashes for supervisors; sensor events are kept in memory so the record shows what the gateway sent last
+class CrashLog {
+	private store = openStore<CrashRecord>("track-facility-crashes", "crashes", "id");
+	private sensorEvents: SensorEventBreadcrumb[] = [];
+	private listeners = new Set<Listener>();
+
+	recordSensorEvent(event: string, data: unknown) {
+		this.sensorEvents = [...this.sensorEvents, { at: Date.now(), event, data }].slice(-MAX_SENSOR_EVENTS);
+	}
+
+	async record(kind: CrashKind, error: unknown, componentStack: string | null = null) {
+		const record: CrashRecord = {
+			id: createCrashId(),
+			occurredAt: Date.now(),
+			kind,
+			...describeError(error),
+			componentStack,
+			route: window.location.pathname,
+			sessionId: checkSession.get()?.id ?? null,
+			kioskId: getKioskId(),
+			sensorEvents: this.sensorEvents,
+		};
+
+		try {
+			await this.store.put(record);
+			await this.prune();
+			this.notify();
+		} catch (storeError) {
+			kioskLog.error("Failed to store crash record", { error: storeError, record });
+		}
+		return record;
+	}
+
+	async list() {
+		return (await this.store.getAll()).sort((a, b) => b.occurredAt - a.occurredAt);
+	}
+
+	async clear() {
+		await this.store.clear();
+		this.notify();
+	}
+
+	subscribe(listener: Listener) {
+		this.listeners.add(listener);
+		this.list()
+			.then(listener)
+			.catch(() => listener([]));
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	// Errors outside React rendering (socket handlers, timers, promises) never reach the error boundary
+	captureGlobalErrors() {
+		const handleError = (event: ErrorEvent) => {
+			this.record("uncaught", event.error ?? event.message);
+		};
+		const handleRejection = (event: PromiseRejectionEvent) => {
+			this.record("rejection", event.reason);
+		};
+
+		window.addEventListener("error", handleError);
+		window.addEventListener("unhandledrejection", handleRejection);
+		return () => {
+			window.removeEventListener("error", handleError);
+			window.removeEventListener("unhandledrejection", handleRejection);
+		};
+	}
+
+	private async prune() {
+		const excess = (await this.list()).slice(MAX_CRASH_RECORDS);
+		await Promise.all(excess.map((record) => this.store.delete(record.id)));
+	}
+
+	private notify() {
+		if (!this.listeners.size) return;
+		this.list()
+			.then((records) => this.listeners.forEach((listener) => listener(records)))
+			.catch((error) => kioskLog.error("Failed to read crash log", error));
+	}
+}
+
+export const crashLog = new CrashLog();
+
+export const downloadCrashLog = (records: CrashRecord[], fileName: string) => {
+	const url = URL.createObjectURL(new Blob([JSON.stringify(records, null, 2)], { type: "application/json" }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+};
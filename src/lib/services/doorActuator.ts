@@ -0,0 +1,140 @@
+import { t } from "../i18n";
+import { apiClient } from "./apiClient";
+import { logger } from "./logger";
+
+const doorLog = logger.category("door");
+
+const DEFAULT_ACK_TIMEOUT = 5000;
+const DEFAULT_UNLOCK_DURATION = 5000;
+
+export type UnlockRequest = {
+	faceId: string | null;
+	// How long the relay should hold the door open
+	durationMs: number;
+};
+
+export type UnlockAck = {
+	success: boolean;
+	error?: string;
+};
+
+export class ActuatorError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ActuatorError";
+	}
+}
+
+export interface DoorActuator {
+	readonly kind: ActuatorKind;
+	unlock(request: UnlockRequest): Promise<void>;
+}
+
+export type ActuatorKind = "socket" | "http" | "simulated";
+
+const assertAck = (ack: UnlockAck | undefined) => {
+	if (!ack?.success) throw new ActuatorError(ack?.error || t("door.rejected"));
+};
+
+// Sends "unlock" over the gateway's socket.io connection and waits for the acknowledgement
+export class SocketDoorActuator implements DoorActuator {
+	readonly kind = "socket";
+
+	constructor(private readonly ackTimeout = DEFAULT_ACK_TIMEOUT) {}
+
+	async unlock(request: UnlockRequest) {
+		const socket = apiClient.createSocket({ transports: ["websocket"], reconnection: false });
+		try {
+			const ack: UnlockAck = await socket.timeout(this.ackTimeout).emitWithAck("unlock", request);
+			assertAck(ack);
+		} catch (error) {
+			if (error instanceof ActuatorError) throw error;
+			throw new ActuatorError(t("door.noResponse"));
+		} finally {
+			socket.disconnect();
+		}
+	}
+}
+
+// Posts to a standalone relay controller on the local network. Plain fetch on purpose: the relay is
+// a different host and must never receive the backend's API credentials
+export class HttpDoorActuator implements DoorActuator {
+	readonly kind = "http";
+
+	constructor(
+		private readonly relayUrl: string,
+		private readonly ackTimeout = DEFAULT_ACK_TIMEOUT,
+	) {}
+
+	async unlock(request: UnlockRequest) {
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), this.ackTimeout);
+		let ack: UnlockAck | undefined;
+		try {
+			const response = await fetch(this.relayUrl, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(request),
+				signal: controller.signal,
+			});
+			if (!response.ok) throw new Error(`Relay answered ${response.status}`);
+			const text = await response.text();
+			ack = text ? (JSON.parse(text) as UnlockAck) : undefined;
+		} catch {
+			throw new ActuatorError(t("door.noResponse"));
+		} finally {
+			clearTimeout(timer);
+		}
+		assertAck(ack ?? { success: true });
+	}
+}
+
+// Development stand-in: waits like real hardware and can be told to fail
+export class SimulatedDoorActuator implements DoorActuator {
+	readonly kind = "simulated";
+
+	constructor(
+		private readonly latency = 600,
+		private readonly failureRate = 0,
+	) {}
+
+	async unlock(request: UnlockRequest) {
+		doorLog.info("[simulated] Unlocking door", request);
+		await new Promise((resolve) => setTimeout(resolve, this.latency));
+		if (Math.random() < this.failureRate) {
+			throw new ActuatorError(t("door.simulatedFailure"));
+		}
+	}
+}
+
+const createDefaultActuator = (): DoorActuator | null => {
+	const kind = import.meta.env.VITE_DOOR_ACTUATOR?.trim() || (import.meta.env.DEV ? "simulated" : "socket");
+	switch (kind) {
+		case "socket":
+			return new SocketDoorActuator();
+		case "http": {
+			const relayUrl = import.meta.env.VITE_DOOR_RELAY_URL?.trim();
+			if (!relayUrl) {
+				doorLog.error("VITE_DOOR_RELAY_URL is required for the http door actuator");
+				return null;
+			}
+			return new HttpDoorActuator(relayUrl);
+		}
+		case "simulated":
+			return new SimulatedDoorActuator(600, Number(import.meta.env.VITE_DOOR_SIMULATED_FAILURE_RATE) || 0);
+		default:
+			// "none": kiosks that only record checks without a door
+			return null;
+	}
+};
+
+let doorActuator = createDefaultActuator();
+
+export const getDoorActuator = () => doorActuator;
+
+export const setDoorActuator = (actuator: DoorActuator | null) => {
+	doorActuator = actuator;
+};
+
+export const getUnlockDuration = () =>
+	Number(import.meta.env.VITE_DOOR_UNLOCK_MS) || DEFAULT_UNLOCK_DURATION;
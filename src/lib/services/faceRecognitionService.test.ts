@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiError } from "./apiClient";
+import { faceRecognitionService } from "./faceRecognitionService";
+
+const reply = (status: number, body: string) => vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status })));
+
+describe("faceRecognitionService.verifyFace", () => {
+	afterEach(() => vi.unstubAllGlobals());
+
+	it("passes on the reason of a 4xx reply instead of failing", async () => {
+		reply(400, JSON.stringify({ error: "No face detected in image" }));
+
+		await expect(faceRecognitionService.verifyFace("frame")).resolves.toEqual({
+			matched: false,
+			error: "No face detected in image",
+		});
+	});
+
+	it("still fails on a 4xx without a reason and on server errors", async () => {
+		reply(401, "Unauthorized");
+		await expect(faceRecognitionService.verifyFace("frame")).rejects.toBeInstanceOf(ApiError);
+
+		reply(500, JSON.stringify({ error: "Model crashed" }));
+		await expect(faceRecognitionService.verifyFace("frame")).rejects.toMatchObject({ status: 500 });
+	});
+});
@@ -1,22 +1,93 @@
-interface VerifyFaceResponse {
+import type { LivenessChallenge, LivenessEvidence } from "../liveness";
+import { ApiError, apiClient } from "./apiClient";
+
+export interface EmployeeProfile {
+	employeeId: string;
+	name: string;
+	// Absolute URL or data URL of the enrolled portrait
+	photoUrl?: string;
+	department?: string;
+	shift?: string;
+}
+
+export interface VerifyFaceResponse {
 	matched: boolean;
 	faceId?: string;
+	// Present on a match when the backend knows who the face belongs to
+	employee?: EmployeeProfile;
 	error?: string;
+	// Verdict on the challenge frames; a match without one is treated as failed
+	liveness?: {
+		passed: boolean;
+		score?: number;
+	};
+}
+
+interface VerifyFaceRequest {
+	image: string;
+	frames?: string[];
+	liveness?: {
+		challenge: LivenessChallenge;
+		capturedAt: number[];
+		minMotion: number;
+		maxMotion: number;
+	};
 }
 
+export interface EnrollFaceRequest {
+	employeeId: string;
+	name: string;
+	images: string[];
+}
+
+export interface EnrollFaceResponse {
+	success: boolean;
+	faceId?: string;
+	error?: string;
+}
+
+// A 4xx with a JSON reason (e.g. "No face detected in image") is an answer about the frame, not a failure
+const verifyFaceReply = (error: unknown): VerifyFaceResponse | null => {
+	if (!(error instanceof ApiError) || !error.status || error.status < 400 || error.status >= 500) return null;
+	const body = error.body as Partial<VerifyFaceResponse> | undefined;
+	if (typeof body?.error !== "string" && typeof body?.matched !== "boolean") return null;
+	return { ...body, matched: body.matched ?? false };
+};
+
 class FaceRecognitionService {
-	async verifyFace(imageData: string): Promise<VerifyFaceResponse> {
-		const response = await fetch(
-			`http://localhost:3001/api/verify-face`,
-			{
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify({ image: imageData }),
-			},
-		);
-		return response.json();
+	async verifyFace(imageData: string, evidence?: LivenessEvidence): Promise<VerifyFaceResponse> {
+		const body: VerifyFaceRequest = { image: imageData };
+		if (evidence) {
+			body.frames = evidence.frames;
+			body.liveness = {
+				challenge: evidence.challenge,
+				capturedAt: evidence.capturedAt,
+				minMotion: evidence.consistency.minMotion,
+				maxMotion: evidence.consistency.maxMotion,
+			};
+		}
+
+		try {
+			return await apiClient.post<VerifyFaceResponse>("/api/verify-face", body, {
+				timeout: apiClient.getConfig().timeouts.verifyFace,
+			});
+		} catch (error) {
+			const reply = verifyFaceReply(error);
+			if (reply) return reply;
+			throw error;
+		}
+	}
+
+	// The sharpest-looking frame is usually mid-burst, after the challenge motion has started
+	async verifyLiveFace(evidence: LivenessEvidence): Promise<VerifyFaceResponse> {
+		const primary = evidence.frames[Math.floor(evidence.frames.length / 2)];
+		return this.verifyFace(primary, evidence);
+	}
+
+	async enrollFace(request: EnrollFaceRequest): Promise<EnrollFaceResponse> {
+		return apiClient.post<EnrollFaceResponse>("/api/enroll-face", request, {
+			timeout: apiClient.getConfig().timeouts.verifyFace * 2,
+		});
 	}
 }
 
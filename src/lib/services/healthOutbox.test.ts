@@ -0,0 +1,130 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { healthOutbox, type OutboxEntry } from "./healthOutbox";
+import { openStore } from "./indexedDb";
+
+const queued = openStore<OutboxEntry>("track-facility-outbox", "checks", "idempotencyKey");
+const rejected = openStore<OutboxEntry>("track-facility-outbox-rejected", "checks", "idempotencyKey");
+
+const CHECK = { faceId: "face-1", readings: { TEMPERATURE: 36.6 }, payload: { faceId: "face-1" } };
+
+// Answers the next /health posts with these statuses; the last one repeats
+const replyWith = (...statuses: number[]) => {
+	const fetchMock = vi.fn(async () => {
+		const status = statuses.length > 1 ? statuses.shift()! : statuses[0];
+		return new Response(JSON.stringify(status < 400 ? { success: true } : { error: "Rejected" }), { status });
+	});
+	vi.stubGlobal("fetch", fetchMock);
+	return fetchMock;
+};
+
+const idempotencyKeys = (fetchMock: ReturnType<typeof replyWith>) =>
+	fetchMock.mock.calls.map((call) => (call as unknown[] as [string, RequestInit])[1].headers).map(
+		(headers) => (headers as Record<string, string>)["Idempotency-Key"],
+	);
+
+describe("healthOutbox", () => {
+	let now: number;
+
+	beforeEach(async () => {
+		(["debug", "info", "warn", "error"] as const).forEach((level) =>
+			vi.spyOn(console, level).mockImplementation(() => undefined),
+		);
+		now = Date.now();
+		vi.spyOn(Date, "now").mockImplementation(() => now);
+		await queued.clear();
+		await rejected.clear();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it("replays a queued check with the same idempotency key", async () => {
+		const fetchMock = replyWith(503, 200);
+
+		const { status, entry } = await healthOutbox.submit(CHECK);
+		expect(status).toBe("queued");
+
+		now += 5000;
+		await healthOutbox.flush();
+
+		expect(idempotencyKeys(fetchMock)).toEqual([entry.idempotencyKey, entry.idempotencyKey]);
+		expect(await queued.getAll()).toEqual([]);
+	});
+
+	it("backs off between replays", async () => {
+		const fetchMock = replyWith(503);
+		const start = now;
+
+		await healthOutbox.submit(CHECK);
+		expect(await queued.getAll()).toMatchObject([{ attempts: 1, nextAttemptAt: start + 5000 }]);
+
+		now = start + 4999;
+		await healthOutbox.flush();
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		now = start + 5000;
+		await healthOutbox.flush();
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(await queued.getAll()).toMatchObject([{ attempts: 2, nextAttemptAt: start + 15000 }]);
+	});
+
+	it("counts a 409 on replay as delivered", async () => {
+		replyWith(503, 409);
+
+		await healthOutbox.submit(CHECK);
+		now += 5000;
+		await healthOutbox.flush();
+
+		expect(await queued.getAll()).toEqual([]);
+		expect(await rejected.getAll()).toEqual([]);
+	});
+
+	it("moves a check the backend refuses on replay to the rejected store", async () => {
+		replyWith(503, 422);
+
+		const { entry } = await healthOutbox.submit(CHECK);
+		now += 5000;
+		await healthOutbox.flush();
+
+		expect(await queued.getAll()).toEqual([]);
+		expect(await rejected.getAll()).toMatchObject([
+			{ idempotencyKey: entry.idempotencyKey, attempts: 2, lastError: "Request failed with status 422" },
+		]);
+	});
+
+	it.each([401, 403])("keeps a check refused with %i for retry, as the kiosk's token is at fault", async (status) => {
+		replyWith(status, status, 200);
+
+		const submitted = await healthOutbox.submit(CHECK);
+		expect(submitted.status).toBe("queued");
+
+		now += 5000;
+		await healthOutbox.flush();
+		expect(await queued.getAll()).toMatchObject([{ idempotencyKey: submitted.entry.idempotencyKey, attempts: 2 }]);
+		expect(await rejected.getAll()).toEqual([]);
+
+		now += 10000;
+		await healthOutbox.flush();
+		expect(await queued.getAll()).toEqual([]);
+	});
+
+	it("leaves a check that is still being submitted to submit", async () => {
+		let respond: (response: Response) => void = () => undefined;
+		const fetchMock = vi.fn(() => new Promise<Response>((resolve) => (respond = resolve)));
+		vi.stubGlobal("fetch", fetchMock);
+
+		const submitting = healthOutbox.submit(CHECK);
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+		const flushing = healthOutbox.flush();
+		respond(new Response(JSON.stringify({ error: "Rejected" }), { status: 422 }));
+
+		// The refusal goes back to the worker only, not into the rejected store as a replay failure
+		await expect(submitting).rejects.toMatchObject({ status: 422 });
+		await flushing;
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(await rejected.getAll()).toEqual([]);
+	});
+});
@@ -0,0 +1,240 @@
+import type { StepReadings } from "../healthCheckMachine";
+import { apiClient, ApiError } from "./apiClient";
+import { openStore } from "./indexedDb";
+import { logger } from "./logger";
+
+const submitLog = logger.category("submit");
+
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const FLUSH_INTERVAL = 15000;
+
+export type OutboxEntry = {
+	// Doubles as the IndexedDB key and the Idempotency-Key header, so replays never duplicate a check
+	idempotencyKey: string;
+	faceId: string;
+	readings: StepReadings;
+	payload: Record<string, unknown>;
+	createdAt: number;
+	attempts: number;
+	nextAttemptAt: number;
+	lastError?: string;
+};
+
+export type SubmitResult = { status: "sent" | "queued"; entry: OutboxEntry };
+
+type Listener = (pending: number) => void;
+
+const createIdempotencyKey = () =>
+	typeof crypto !== "undefined" && "randomUUID" in crypto
+		? crypto.randomUUID()
+		: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const getRetryDelay = (attempts: number) =>
+	Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+
+// 409 means the backend already stored this idempotency key
+const isDelivered = (error: unknown) => error instanceof ApiError && error.status === 409;
+
+// Refusals of the kiosk rather than of the check: an expired or rotated token, timeouts and rate limits
+const RETRYABLE_CLIENT_ERRORS = [401, 403, 408, 409, 429];
+
+// Any other 4xx means the payload itself was refused; replaying it cannot help
+const isRejected = (error: unknown) =>
+	error instanceof ApiError &&
+	error.status !== undefined &&
+	error.status >= 400 &&
+	error.status < 500 &&
+	!RETRYABLE_CLIENT_ERRORS.includes(error.status);
+
+const isAuthFailure = (error: unknown) => error instanceof ApiError && (error.status === 401 || error.status === 403);
+
+class HealthOutbox {
+	private store = openStore<OutboxEntry>("track-facility-outbox", "checks", "idempotencyKey");
+	// Replayed checks the backend refused, kept on the kiosk for diagnosis instead of being retried forever
+	private rejected = openStore<OutboxEntry>("track-facility-outbox-rejected", "checks", "idempotencyKey");
+	private listeners = new Set<Listener>();
+	private inFlight = new Map<string, Promise<void>>();
+	private loadedAt = Date.now();
+	private flushing: Promise<void> | null = null;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private pending = 0;
+
+	start() {
+		if (this.timer) return () => this.stop();
+		window.addEventListener("online", this.handleOnline);
+		this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+		this.refreshCount();
+		this.flush();
+		return () => this.stop();
+	}
+
+	stop() {
+		window.removeEventListener("online", this.handleOnline);
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+	}
+
+	subscribe(listener: Listener) {
+		this.listeners.add(listener);
+		listener(this.pending);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	getPendingCount() {
+		return this.pending;
+	}
+
+	getEntries() {
+		return this.store.getAll();
+	}
+
+	// Persists the check first, then tries to deliver it right away
+	async submit(check: Pick<OutboxEntry, "faceId" | "readings" | "payload">): Promise<SubmitResult> {
+		const now = Date.now();
+		const entry: OutboxEntry = {
+			...check,
+			idempotencyKey: createIdempotencyKey(),
+			createdAt: now,
+			attempts: 0,
+			nextAttemptAt: now,
+		};
+
+		let persisted = true;
+		try {
+			await this.store.put(entry);
+			await this.refreshCount();
+		} catch (error) {
+			submitLog.error("Outbox unavailable", error);
+			persisted = false;
+		}
+
+		try {
+			await this.send(entry);
+			return { status: "sent", entry };
+		} catch (error) {
+			// A refused check goes back to the worker as a failure; without a persisted copy the measurement would be lost
+			if (isRejected(error) || !persisted) {
+				if (persisted) await this.discard(entry);
+				throw error;
+			}
+			await this.reschedule(entry, error);
+			return { status: "queued", entry };
+		}
+	}
+
+	flush(): Promise<void> {
+		if (!this.flushing) {
+			this.flushing = this.replay().finally(() => {
+				this.flushing = null;
+			});
+		}
+		return this.flushing;
+	}
+
+	private handleOnline = () => {
+		submitLog.info("Connection restored, replaying outbox");
+		this.flush();
+	};
+
+	private async replay() {
+		if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+		let entries: OutboxEntry[];
+		try {
+			entries = await this.store.getAll();
+		} catch {
+			return;
+		}
+
+		const now = Date.now();
+		// submit() owns a check from this page load until its first attempt fails, and a check on the wire is left to
+		// that delivery; an untried check from before a reload is still replayed
+		const due = entries
+			.filter(
+				(entry) =>
+					entry.nextAttemptAt <= now &&
+					(entry.attempts > 0 || entry.createdAt < this.loadedAt) &&
+					!this.inFlight.has(entry.idempotencyKey),
+			)
+			.sort((a, b) => a.createdAt - b.createdAt);
+
+		for (const entry of due) {
+			try {
+				await this.send(entry);
+			} catch (error) {
+				if (isRejected(error)) await this.reject(entry, error);
+				else await this.reschedule(entry, error);
+			}
+		}
+	}
+
+	// A check already being delivered (e.g. by a flush racing submit) is awaited rather than reported as sent
+	private send(entry: OutboxEntry) {
+		const pending = this.inFlight.get(entry.idempotencyKey);
+		if (pending) return pending;
+
+		const delivery = this.deliver(entry).finally(() => this.inFlight.delete(entry.idempotencyKey));
+		this.inFlight.set(entry.idempotencyKey, delivery);
+		return delivery;
+	}
+
+	private async deliver(entry: OutboxEntry) {
+		try {
+			await apiClient.post("/health", entry.payload, {
+				timeout: apiClient.getConfig().timeouts.health,
+				headers: { "Idempotency-Key": entry.idempotencyKey },
+			});
+		} catch (error) {
+			if (!isDelivered(error)) throw error;
+		}
+
+		submitLog.info(`Health check ${entry.idempotencyKey} delivered`);
+		await this.store.delete(entry.idempotencyKey).catch(() => undefined);
+		await this.refreshCount();
+	}
+
+	private async discard(entry: OutboxEntry) {
+		await this.store.delete(entry.idempotencyKey).catch(() => undefined);
+		await this.refreshCount();
+	}
+
+	private async reject(entry: OutboxEntry, error: unknown) {
+		const lastError = error instanceof Error ? error.message : String(error);
+		submitLog.error(`Health check ${entry.idempotencyKey} rejected by the backend, not retrying`, lastError);
+		await this.rejected.put({ ...entry, attempts: entry.attempts + 1, lastError }).catch(() => undefined);
+		await this.discard(entry);
+	}
+
+	private async reschedule(entry: OutboxEntry, error: unknown) {
+		const attempts = entry.attempts + 1;
+		const updated: OutboxEntry = {
+			...entry,
+			attempts,
+			nextAttemptAt: Date.now() + getRetryDelay(attempts),
+			lastError: error instanceof Error ? error.message : String(error),
+		};
+		if (isAuthFailure(error)) {
+			submitLog.error(
+				`Health check ${entry.idempotencyKey} queued: the backend refused the kiosk's API token`,
+				updated.lastError,
+			);
+		} else {
+			submitLog.warn(`Health check ${entry.idempotencyKey} queued (attempt ${attempts})`, updated.lastError);
+		}
+		await this.store.put(updated).catch(() => undefined);
+	}
+
+	private async refreshCount() {
+		try {
+			this.pending = await this.store.count();
+		} catch {
+			this.pending = 0;
+		}
+		this.listeners.forEach((listener) => listener(this.pending));
+	}
+}
+
+export const healthOutbox = new HealthOutbox();
@@ -0,0 +1,63 @@
+// Minimal promise wrapper around a single IndexedDB object store
+export type KeyValueStore<T> = {
+	getAll: () => Promise<T[]>;
+	get: (key: IDBValidKey) => Promise<T | undefined>;
+	put: (value: T) => Promise<void>;
+	delete: (key: IDBValidKey) => Promise<void>;
+	count: () => Promise<number>;
+	clear: () => Promise<void>;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+	new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+export const openStore = <T>(dbName: string, storeName: string, keyPath: string): KeyValueStore<T> => {
+	let dbPromise: Promise<IDBDatabase> | null = null;
+
+	const open = () => {
+		if (!dbPromise) {
+			dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+				if (typeof indexedDB === "undefined") {
+					reject(new Error("IndexedDB is not available"));
+					return;
+				}
+				const request = indexedDB.open(dbName, 1);
+				request.onupgradeneeded = () => {
+					if (!request.result.objectStoreNames.contains(storeName)) {
+						request.result.createObjectStore(storeName, { keyPath });
+					}
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+			// Allow a later call to retry if opening failed (e.g. private mode)
+			dbPromise.catch(() => {
+				dbPromise = null;
+			});
+		}
+		return dbPromise;
+	};
+
+	const withStore = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>) => {
+		const db = await open();
+		return promisify(action(db.transaction(storeName, mode).objectStore(storeName)));
+	};
+
+	return {
+		getAll: () => withStore("readonly", (store) => store.getAll() as IDBRequest<T[]>),
+		get: (key) => withStore("readonly", (store) => store.get(key) as IDBRequest<T | undefined>),
+		put: async (value) => {
+			await withStore("readwrite", (store) => store.put(value));
+		},
+		delete: async (key) => {
+			await withStore("readwrite", (store) => store.delete(key));
+		},
+		count: () => withStore("readonly", (store) => store.count()),
+		clear: async () => {
+			await withStore("readwrite", (store) => store.clear());
+		},
+	};
+};
@@ -0,0 +1,99 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { logger, MemoryLogTransport, type LogEntry, type LogTransport } from "./logger";
+
+const testLog = logger.category("kiosk");
+
+const logTimes = (count: number) => {
+	for (let i = 0; i < count; i++) testLog.info(`entry ${i}`);
+};
+
+describe("logger", () => {
+	let transport: MemoryLogTransport;
+
+	beforeEach(async () => {
+		(["debug", "info", "warn", "error"] as const).forEach((level) =>
+			vi.spyOn(console, level).mockImplementation(() => undefined),
+		);
+		transport = new MemoryLogTransport();
+		logger.setTransport(transport);
+		logger.setLevel("debug");
+		await logger.clear();
+	});
+
+	afterEach(async () => {
+		await logger.flush();
+		logger.setTransport(null);
+		logger.setLevel(null);
+		vi.restoreAllMocks();
+	});
+
+	it("drops entries below the configured level everywhere", async () => {
+		logger.setLevel("warn");
+
+		testLog.debug("sample");
+		testLog.info("step started");
+		testLog.warn("sensor slow");
+		testLog.error("sensor lost");
+		await logger.flush();
+
+		expect(transport.batches.flat().map((entry) => entry.level)).toEqual(["warn", "error"]);
+		expect(console.debug).not.toHaveBeenCalled();
+		expect(console.info).not.toHaveBeenCalled();
+		await vi.waitFor(async () => expect(await logger.list()).toHaveLength(2));
+	});
+
+	it("ships a batch as soon as it is full and holds a partial one for the next flush", async () => {
+		logTimes(49);
+		await Promise.resolve();
+		expect(transport.batches).toHaveLength(0);
+
+		logTimes(1);
+		await vi.waitFor(() => expect(transport.batches.map((batch) => batch.length)).toEqual([50]));
+
+		logTimes(20);
+		await Promise.resolve();
+		expect(transport.batches).toHaveLength(1);
+
+		await logger.flush();
+		expect(transport.batches.map((batch) => batch.length)).toEqual([50, 20]);
+	});
+
+	it("keeps a batch the transport failed to deliver and sends it with the next flush", async () => {
+		const delivered: LogEntry[][] = [];
+		let failures = 1;
+		const flaky: LogTransport = {
+			kind: "memory",
+			send: async (entries) => {
+				if (failures-- > 0) throw new Error("Backend unreachable");
+				delivered.push(entries);
+			},
+		};
+		logger.setTransport(flaky);
+
+		testLog.warn("door relay slow");
+		await logger.flush();
+		expect(delivered).toHaveLength(0);
+		expect(console.warn).toHaveBeenCalledWith("[kiosk] door relay slow");
+		expect(console.warn).toHaveBeenCalledWith("[kiosk] Log delivery failed, will retry", expect.any(Error));
+
+		await logger.flush();
+		expect(delivered.flat().map((entry) => entry.message)).toEqual(["door relay slow"]);
+	});
+
+	it("keeps only the newest 1000 entries in the local buffer", async () => {
+		logger.setTransport(null);
+
+		logTimes(1100);
+
+		await vi.waitFor(
+			async () => {
+				const entries = await logger.list();
+				expect(entries).toHaveLength(1000);
+				expect(entries[0].message).toBe("entry 100");
+				expect(entries.at(-1)?.message).toBe("entry 1099");
+			},
+			{ timeout: 10000, interval: 100 },
+		);
+	});
+});
@@ -0,0 +1,217 @@
+import { getKioskId } from "../kioskIdentity";
+import { apiClient } from "./apiClient";
+import { openStore } from "./indexedDb";
+
+const LEVEL_STORAGE_KEY = "logLevel";
+// Ring buffer size; old entries are pruned in bulk rather than on every write
+const MAX_STORED_ENTRIES = 1000;
+const PRUNE_EVERY = 100;
+const BATCH_SIZE = 50;
+const FLUSH_INTERVAL = 10000;
+// Entries kept for the transport while the backend is unreachable
+const MAX_QUEUED_ENTRIES = 500;
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogCategory = "sensor" | "camera" | "face" | "submit" | "navigation" | "session" | "door" | "kiosk";
+
+export type LogEntry = {
+	// Sortable: timestamp plus a per-page sequence number
+	id: string;
+	at: number;
+	level: LogLevel;
+	category: LogCategory;
+	message: string;
+	data?: unknown;
+	// The check session active when the entry was written, for following one worker's check end to end
+	sessionId: string | null;
+	kioskId: string;
+};
+
+export type CategoryLogger = Record<LogLevel, (message: string, data?: unknown) => void>;
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Plain text so the output stays readable in journald and serial consoles without emoji fonts
+const consoleLine = (category: LogCategory, message: string) => `[${category}] ${message}`;
+
+const isLogLevel = (value: unknown): value is LogLevel => LOG_LEVELS.includes(value as LogLevel);
+
+// Production kiosks default to "info" so per-sample sensor chatter never reaches the console or the backend
+export const getLogLevel = (): LogLevel => {
+	const stored = typeof localStorage !== "undefined" ? localStorage.getItem(LEVEL_STORAGE_KEY) : null;
+	if (isLogLevel(stored)) return stored;
+	const fromEnv = import.meta.env.VITE_LOG_LEVEL?.trim();
+	if (isLogLevel(fromEnv)) return fromEnv;
+	return import.meta.env.DEV ? "debug" : "info";
+};
+
+const serializeError = (_key: string, value: unknown) =>
+	value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+// Errors and DOM objects do not survive structured cloning into IndexedDB or JSON for the transport
+const serializable = (data: unknown): unknown => {
+	try {
+		return JSON.parse(JSON.stringify(data, serializeError) ?? "null") as unknown;
+	} catch {
+		return String(data);
+	}
+};
+
+export interface LogTransport {
+	readonly kind: "http" | "memory";
+	send(entries: LogEntry[]): Promise<void>;
+}
+
+// Posts batches to the backend; a relative path goes through the configured API server
+export class HttpLogTransport implements LogTransport {
+	readonly kind = "http";
+
+	constructor(private readonly endpoint: string) {}
+
+	async send(entries: LogEntry[]) {
+		await apiClient.post(this.endpoint, { entries });
+	}
+}
+
+// Local stand-in for tests and development: keeps every batch it is given
+export class MemoryLogTransport implements LogTransport {
+	readonly kind = "memory";
+	readonly batches: LogEntry[][] = [];
+
+	async send(entries: LogEntry[]) {
+		this.batches.push(entries);
+	}
+}
+
+const createDefaultTransport = (): LogTransport | null => {
+	const endpoint = import.meta.env.VITE_LOG_ENDPOINT?.trim();
+	return endpoint ? new HttpLogTransport(endpoint) : null;
+};
+
+// Leveled, categorised logging for kiosks nobody watches: everything at or above the level goes to
+// the console, a ring buffer in IndexedDB and, when configured, a transport that ships batches to the backend
+class Logger {
+	private store = openStore<LogEntry>("track-facility-logs", "entries", "id");
+	private level = getLogLevel();
+	private transport = createDefaultTransport();
+	private queue: LogEntry[] = [];
+	private flushing: Promise<void> | null = null;
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+	private sessionId: string | null = null;
+	private deliveryFailing = false;
+	private bufferUnavailable = false;
+	private sequence = 0;
+	private writesSincePrune = 0;
+
+	category(category: LogCategory): CategoryLogger {
+		return {
+			debug: (message, data) => this.log("debug", category, message, data),
+			info: (message, data) => this.log("info", category, message, data),
+			warn: (message, data) => this.log("warn", category, message, data),
+			error: (message, data) => this.log("error", category, message, data),
+		};
+	}
+
+	log(level: LogLevel, category: LogCategory, message: string, data?: unknown) {
+		if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) return;
+
+		const at = Date.now();
+		const entry: LogEntry = {
+			id: `${at.toString(36).padStart(9, "0")}-${(this.sequence++).toString(36).padStart(4, "0")}`,
+			at,
+			level,
+			category,
+			message,
+			...(data === undefined ? {} : { data: serializable(data) }),
+			sessionId: this.sessionId,
+			kioskId: getKioskId(),
+		};
+
+		const args = data === undefined ? [] : [data];
+		console[level](consoleLine(category, message), ...args);
+		this.persist(entry);
+		this.enqueue(entry);
+	}
+
+	getLevel() {
+		return this.level;
+	}
+
+	setLevel(level: LogLevel | null) {
+		if (level) localStorage.setItem(LEVEL_STORAGE_KEY, level);
+		else localStorage.removeItem(LEVEL_STORAGE_KEY);
+		this.level = getLogLevel();
+	}
+
+	// Set by the check session store, so entries can be grouped per worker
+	setSessionId(sessionId: string | null) {
+		this.sessionId = sessionId;
+	}
+
+	setTransport(transport: LogTransport | null) {
+		this.transport = transport;
+		if (!transport) this.queue = [];
+	}
+
+	async list() {
+		return (await this.store.getAll()).sort((a, b) => (a.id < b.id ? -1 : 1));
+	}
+
+	async clear() {
+		await this.store.clear();
+	}
+
+	flush(): Promise<void> {
+		if (this.flushTimer) clearTimeout(this.flushTimer);
+		this.flushTimer = null;
+		if (!this.flushing) {
+			this.flushing = this.sendQueued().finally(() => {
+				this.flushing = null;
+			});
+		}
+		return this.flushing;
+	}
+
+	private enqueue(entry: LogEntry) {
+		if (!this.transport) return;
+		this.queue = [...this.queue, entry].slice(-MAX_QUEUED_ENTRIES);
+		// While the backend is failing, wait for the retry timer instead of flushing on every entry
+		if (this.queue.length >= BATCH_SIZE && !this.deliveryFailing) this.flush();
+		else if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+	}
+
+	private async sendQueued() {
+		const transport = this.transport;
+		while (transport && this.queue.length) {
+			const batch = this.queue.slice(0, BATCH_SIZE);
+			try {
+				await transport.send(batch);
+			} catch (error) {
+				// Keep the batch and retry with the next flush; logging the failure would only grow the queue
+				if (!this.deliveryFailing) console.warn(consoleLine("kiosk", "Log delivery failed, will retry"), error);
+				this.deliveryFailing = true;
+				if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+				return;
+			}
+			this.deliveryFailing = false;
+			this.queue = this.queue.filter((entry) => !batch.includes(entry));
+		}
+	}
+
+	private async persist(entry: LogEntry) {
+		try {
+			await this.store.put(entry);
+			if (++this.writesSincePrune >= PRUNE_EVERY) {
+				this.writesSincePrune = 0;
+				const excess = (await this.list()).slice(0, -MAX_STORED_ENTRIES);
+				await Promise.all(excess.map(({ id }) => this.store.delete(id)));
+			}
+		} catch (error) {
+			if (!this.bufferUnavailable) console.warn(consoleLine("kiosk", "Log buffer unavailable"), error);
+			this.bufferUnavailable = true;
+		}
+	}
+}
+
+export const logger = new Logger();
@@ -0,0 +1,173 @@
+import { format } from "date-fns";
+import {
+	get,
+	onDisconnect,
+	ref,
+	serverTimestamp,
+	set,
+	update,
+	type Database,
+} from "firebase/database";
+import type { AdmissionDecision } from "../admissionPolicy";
+import type { StepKey } from "../healthSteps";
+import type { StepReadings } from "../healthCheckMachine";
+import type { EmployeeProfile } from "./faceRecognitionService";
+import { db } from "../hooks/firebase";
+import { getKioskId, getSiteId } from "../kioskIdentity";
+import { openStore } from "./indexedDb";
+
+// Local history is only for on-site review; older records live on the backend
+const LOCAL_RETENTION_DAYS = 31;
+
+export type CheckRecord = {
+	id: string;
+	faceId: string;
+	employee?: EmployeeProfile | null;
+	sequence: StepKey[];
+	readings: StepReadings;
+	createdAt: number;
+	admission: AdmissionDecision;
+};
+
+export type KioskStatus = "online" | "offline";
+
+export type KioskPresence = {
+	status: KioskStatus;
+	lastSeen: number;
+};
+
+export interface ChecksRepository {
+	save(record: CheckRecord): Promise<void>;
+	listByDay(day: Date): Promise<CheckRecord[]>;
+}
+
+export interface PresenceRepository {
+	// Marks the kiosk online and registers the server-side offline fallback
+	connect(): Promise<void>;
+	heartbeat(updates?: Pick<KioskPresence, "status">): Promise<void>;
+	disconnect(): Promise<void>;
+}
+
+export const dayKey = (day: Date) => format(day, "yyyy-MM-dd");
+
+export const checkPath = (siteId: string, createdAt: number, id?: string) =>
+	`sites/${siteId}/checks/${dayKey(new Date(createdAt))}${id ? `/${id}` : ""}`;
+
+export const presencePath = (siteId: string, kioskId: string) => `sites/${siteId}/kiosks/${kioskId}`;
+
+export class FirebaseChecksRepository implements ChecksRepository {
+	constructor(private readonly database: Database) {}
+
+	async save(record: CheckRecord) {
+		const { id, createdAt } = record;
+		await set(ref(this.database, checkPath(getSiteId(), createdAt, id)), {
+			...record,
+			kioskId: getKioskId(),
+		});
+	}
+
+	async listByDay(day: Date) {
+		const snapshot = await get(ref(this.database, checkPath(getSiteId(), day.getTime())));
+		const value = (snapshot.val() ?? {}) as Record<string, CheckRecord>;
+		return Object.values(value).sort((a, b) => a.createdAt - b.createdAt);
+	}
+}
+
+// Persists checks on the kiosk itself when Firebase is not configured
+export class IndexedDbChecksRepository implements ChecksRepository {
+	private store = openStore<CheckRecord>("track-facility-history", "checks", "id");
+
+	async save(record: CheckRecord) {
+		await this.store.put(record);
+		await this.prune();
+	}
+
+	async listByDay(day: Date) {
+		const key = dayKey(day);
+		return (await this.store.getAll())
+			.filter((record) => dayKey(new Date(record.createdAt)) === key)
+			.sort((a, b) => a.createdAt - b.createdAt);
+	}
+
+	private async prune() {
+		const cutoff = Date.now() - LOCAL_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+		const expired = (await this.store.getAll()).filter((record) => record.createdAt < cutoff);
+		await Promise.all(expired.map((record) => this.store.delete(record.id)));
+	}
+}
+
+export class FirebasePresenceRepository implements PresenceRepository {
+	constructor(private readonly database: Database) {}
+
+	private get node() {
+		return ref(this.database, presencePath(getSiteId(), getKioskId()));
+	}
+
+	async connect() {
+		await onDisconnect(this.node).update({ status: "offline", lastSeen: serverTimestamp() });
+		await this.heartbeat({ status: "online" });
+	}
+
+	async heartbeat(updates?: Pick<KioskPresence, "status">) {
+		await update(this.node, { ...updates, lastSeen: serverTimestamp() });
+	}
+
+	async disconnect() {
+		await update(this.node, { status: "offline", lastSeen: serverTimestamp() });
+		await onDisconnect(this.node).cancel();
+	}
+}
+
+// Drop-in fake for tests and environments without IndexedDB
+export class InMemoryChecksRepository implements ChecksRepository {
+	readonly records = new Map<string, CheckRecord>();
+
+	async save(record: CheckRecord) {
+		this.records.set(record.id, record);
+	}
+
+	async listByDay(day: Date) {
+		const key = dayKey(day);
+		return [...this.records.values()]
+			.filter((record) => dayKey(new Date(record.createdAt)) === key)
+			.sort((a, b) => a.createdAt - b.createdAt);
+	}
+}
+
+export class InMemoryPresenceRepository implements PresenceRepository {
+	presence: KioskPresence | null = null;
+
+	async connect() {
+		await this.heartbeat({ status: "online" });
+	}
+
+	async heartbeat(updates?: Pick<KioskPresence, "status">) {
+		this.presence = { status: "online", ...this.presence, ...updates, lastSeen: Date.now() };
+	}
+
+	async disconnect() {
+		this.presence = { status: "offline", lastSeen: Date.now() };
+	}
+}
+
+export type Repositories = {
+	checks: ChecksRepository;
+	presence: PresenceRepository;
+};
+
+const createDefaultRepositories = (): Repositories =>
+	db
+		? { checks: new FirebaseChecksRepository(db), presence: new FirebasePresenceRepository(db) }
+		: {
+				checks: typeof indexedDB !== "undefined" ? new IndexedDbChecksRepository() : new InMemoryChecksRepository(),
+				presence: new InMemoryPresenceRepository(),
+			};
+
+let repositories = createDefaultRepositories();
+
+export const getRepositories = () => repositories;
+
+// Swap the backing store, e.g. for in-memory fakes in tests
+export const setRepositories = (next: Partial<Repositories>) => {
+	repositories = { ...repositories, ...next };
+};
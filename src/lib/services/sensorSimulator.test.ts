@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_ADMISSION_POLICY, evaluateAdmission } from "../admissionPolicy";
+import { createHealthCheckRunner, type MachineEffect, type StepReadings } from "../healthCheckMachine";
+import { resolveSteps, type SensorData, type StepKey } from "../healthSteps";
+import { createFakeClock } from "../testing/fakeClock";
+import { getScenario, SimulatedSensorTransport } from "./sensorSimulator";
+
+const SEQUENCE: StepKey[] = ["TEMPERATURE", "ALCOHOL"];
+
+// Wires a scenario to the machine the way useHealthCheck does, on a fake clock shared by both
+const replay = (name: string, duration: number) => {
+	const scenario = getScenario(name);
+	if (!scenario) throw new Error(`Unknown scenario ${name}`);
+	const clock = createFakeClock();
+	const transport = new SimulatedSensorTransport(scenario, clock);
+	const effects: MachineEffect[] = [];
+	const connection: boolean[] = [];
+	let stepEvent: string | null = null;
+	const steps = resolveSteps();
+
+	const handleData = (data: SensorData) => runner.sensorData(data);
+	const runner = createHealthCheckRunner({
+		sequence: SEQUENCE,
+		steps,
+		clock,
+		onEffect: (effect) => {
+			effects.push(effect);
+			if (effect.type === "listen") {
+				if (stepEvent) transport.off(stepEvent, handleData);
+				stepEvent = steps[effect.step].event;
+				transport.on(stepEvent, handleData);
+			}
+			if (effect.type === "stopListening") transport.close();
+		},
+	});
+
+	transport.on("sensorReady", handleData);
+	transport.on("camera", handleData);
+	transport.onConnectionChange((connected) => connection.push(connected));
+	runner.start();
+	clock.advance(duration);
+
+	return { runner, effects, connection };
+};
+
+// Converge steps submit the mean of their window, so temperatures are compared to one decimal
+const submittedReadings = (effects: MachineEffect[]) =>
+	effects.find((effect): effect is Extract<MachineEffect, { type: "submit" }> => effect.type === "submit")?.readings;
+
+const admit = (readings: StepReadings | undefined) =>
+	evaluateAdmission({ sequence: SEQUENCE, readings: readings ?? {}, attempt: 1 }, DEFAULT_ADMISSION_POLICY);
+
+describe("SimulatedSensorTransport scenarios", () => {
+	beforeEach(() => localStorage.clear());
+
+	it("normal: settles both steps and admits the worker", () => {
+		const { runner, effects } = replay("normal", 10000);
+
+		expect(runner.getState().status).toBe("submitting");
+		const readings = submittedReadings(effects);
+		expect(readings).toEqual({ TEMPERATURE: expect.closeTo(36.6, 1), ALCOHOL: 0 });
+		expect(admit(readings)).toMatchObject({ verdict: "ALLOW" });
+	});
+
+	it("fever: submits the settled temperature and denies admission", () => {
+		const { effects } = replay("fever", 10000);
+
+		const readings = submittedReadings(effects);
+		expect(readings).toEqual({ TEMPERATURE: expect.closeTo(38.5, 1), ALCOHOL: 0 });
+		expect(admit(readings)).toMatchObject({
+			verdict: "DENY",
+			reasons: [{ code: "fever", value: expect.closeTo(38.5, 1) }],
+		});
+	});
+
+	it("drunk: submits the breathalyzer value and denies admission", () => {
+		const { effects } = replay("drunk", 10000);
+
+		const readings = submittedReadings(effects);
+		expect(readings).toEqual({ TEMPERATURE: expect.closeTo(36.7, 1), ALCOHOL: 0.42 });
+		expect(admit(readings)).toMatchObject({ verdict: "DENY", reasons: [{ code: "alcoholFail", value: 0.42 }] });
+	});
+
+	it("sensor-never-ready: ignores breath samples and times out on the breathalyzer", () => {
+		const { runner, effects } = replay("sensor-never-ready", 60000);
+
+		expect(runner.getState().status).toBe("timedOut");
+		expect(runner.getState().context.readings).toEqual({ TEMPERATURE: expect.closeTo(36.6, 1) });
+		expect(effects).toContainEqual({ type: "timedOut", step: "ALCOHOL" });
+		expect(effects.some((effect) => effect.type === "submit")).toBe(false);
+	});
+
+	it("disconnect: reports the lost connection and times out on the step in progress", () => {
+		const { runner, effects, connection } = replay("disconnect", 60000);
+
+		expect(connection).toEqual([true, false]);
+		expect(runner.getState().status).toBe("timedOut");
+		expect(effects).toContainEqual({ type: "timedOut", step: "TEMPERATURE" });
+		expect(effects.some((effect) => effect.type === "submit")).toBe(false);
+	});
+});
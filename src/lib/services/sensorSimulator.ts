@@ -0,0 +1,135 @@
+import type { SensorData } from "../healthSteps";
+import { systemClock, type Clock } from "../healthCheckMachine";
+import { crashLog } from "./crashLog";
+import type { SensorListener, SensorTransport } from "./sensorTransport";
+import { logger } from "./logger";
+
+const sensorLog = logger.category("sensor");
+
+const SCENARIO_STORAGE_KEY = "sensorScenario";
+const SCENARIO_QUERY_PARAM = "simulate";
+const DEFAULT_SAMPLE_INTERVAL = 500;
+
+// Samples for one socket event, played from the moment something subscribes to it
+export type SensorStream = {
+	samples: SensorData[];
+	// Milliseconds before the first sample; defaults to the scenario interval
+	delay?: number;
+	interval?: number;
+	// Keep re-sending the last sample, like a sensor that stays on
+	repeatLast?: boolean;
+};
+
+export type SensorScenario = {
+	name: string;
+	description: string;
+	interval?: number;
+	streams: Record<string, SensorStream>;
+	// Drops the connection this many milliseconds after the transport opens
+	disconnectAfter?: number;
+};
+
+const scenarioModules = import.meta.glob<SensorScenario>("../../fixtures/sensorScenarios/*.json", {
+	eager: true,
+	import: "default",
+});
+
+export const SENSOR_SCENARIOS: SensorScenario[] = Object.values(scenarioModules);
+
+export const getScenario = (name: string) => SENSOR_SCENARIOS.find((scenario) => scenario.name === name) ?? null;
+
+// Faked readings must never reach a production kiosk unless the build opts in (e.g. for e2e runs)
+export const isSimulatorAllowed = () => import.meta.env.DEV || import.meta.env.VITE_ALLOW_SIMULATOR === "true";
+
+// ?simulate=<name> selects a scenario and persists it, ?simulate=off clears it
+const readScenarioFromUrl = () => {
+	const value = new URLSearchParams(window.location.search).get(SCENARIO_QUERY_PARAM);
+	if (value === null) return;
+	setActiveScenario(value === "off" ? null : value);
+};
+
+export const getActiveScenario = (): SensorScenario | null => {
+	if (!isSimulatorAllowed()) return null;
+	readScenarioFromUrl();
+	const name = localStorage.getItem(SCENARIO_STORAGE_KEY);
+	return name ? getScenario(name) : null;
+};
+
+export const setActiveScenario = (name: string | null) => {
+	if (name) localStorage.setItem(SCENARIO_STORAGE_KEY, name);
+	else localStorage.removeItem(SCENARIO_STORAGE_KEY);
+};
+
+// Replays a scripted scenario through the SensorTransport interface; pass a fake clock to drive it from tests
+export class SimulatedSensorTransport implements SensorTransport {
+	readonly kind = "simulated";
+	private readonly listeners = new Map<string, Set<SensorListener>>();
+	private readonly connectionListeners = new Set<(connected: boolean) => void>();
+	private readonly streamTimers = new Map<string, unknown>();
+	private readonly timers: unknown[] = [];
+	private connected = true;
+
+	constructor(
+		private readonly scenario: SensorScenario,
+		private readonly clock: Clock = systemClock,
+	) {
+		if (scenario.disconnectAfter !== undefined) {
+			this.timers.push(clock.setTimeout(() => this.disconnect(), scenario.disconnectAfter));
+		}
+	}
+
+	on(event: string, listener: SensorListener) {
+		const listeners = this.listeners.get(event) ?? new Set();
+		listeners.add(listener);
+		this.listeners.set(event, listeners);
+		if (!this.streamTimers.has(event)) this.play(event);
+	}
+
+	off(event: string, listener: SensorListener) {
+		const listeners = this.listeners.get(event);
+		listeners?.delete(listener);
+		if (listeners?.size) return;
+		this.listeners.delete(event);
+		this.clock.clearTimeout(this.streamTimers.get(event));
+		this.streamTimers.delete(event);
+	}
+
+	onConnectionChange(listener: (connected: boolean) => void) {
+		this.connectionListeners.add(listener);
+		this.timers.push(this.clock.setTimeout(() => listener(this.connected), 0));
+	}
+
+	close() {
+		this.timers.forEach((timer) => this.clock.clearTimeout(timer));
+		this.streamTimers.forEach((timer) => this.clock.clearTimeout(timer));
+		this.streamTimers.clear();
+		this.listeners.clear();
+		this.connectionListeners.clear();
+	}
+
+	private play(event: string) {
+		const stream = this.scenario.streams[event];
+		if (!stream?.samples.length || !this.connected) return;
+		const interval = stream.interval ?? this.scenario.interval ?? DEFAULT_SAMPLE_INTERVAL;
+		let index = 0;
+
+		const tick = () => {
+			const data = stream.samples[Math.min(index, stream.samples.length - 1)];
+			index++;
+			crashLog.recordSensorEvent(event, data);
+			this.listeners.get(event)?.forEach((listener) => listener(data));
+			if (index < stream.samples.length || stream.repeatLast) {
+				this.streamTimers.set(event, this.clock.setTimeout(tick, interval));
+			}
+		};
+		this.streamTimers.set(event, this.clock.setTimeout(tick, stream.delay ?? interval));
+	}
+
+	private disconnect() {
+		sensorLog.warn(`Scenario "${this.scenario.name}" dropped the connection`);
+		this.connected = false;
+		this.streamTimers.forEach((timer) => this.clock.clearTimeout(timer));
+		this.streamTimers.clear();
+		this.connectionListeners.forEach((listener) => listener(false));
+	}
+}
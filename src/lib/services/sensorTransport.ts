@@ -0,0 +1,60 @@
+import type { SensorData } from "../healthSteps";
+import { apiClient } from "./apiClient";
+import { crashLog } from "./crashLog";
+import { getActiveScenario, SimulatedSensorTransport } from "./sensorSimulator";
+import { logger } from "./logger";
+
+const sensorLog = logger.category("sensor");
+
+export type SensorListener = (data: SensorData) => void;
+
+// What useHealthCheck needs from the sensor gateway; the socket.io server and the simulator both provide it
+export interface SensorTransport {
+	readonly kind: "socket" | "simulated";
+	on(event: string, listener: SensorListener): void;
+	off(event: string, listener: SensorListener): void;
+	onConnectionChange(listener: (connected: boolean) => void): void;
+	close(): void;
+}
+
+export class SocketSensorTransport implements SensorTransport {
+	readonly kind = "socket";
+	private readonly socket = apiClient.createSocket({
+		transports: ["websocket"],
+		reconnection: true,
+		reconnectionAttempts: Infinity,
+		reconnectionDelay: 1000,
+	});
+
+	constructor() {
+		// Breadcrumbs for crash records, so a payload that broke a handler can be seen afterwards
+		this.socket.onAny((event: string, data: unknown) => crashLog.recordSensorEvent(event, data));
+	}
+
+	on(event: string, listener: SensorListener) {
+		this.socket.on(event, listener);
+	}
+
+	off(event: string, listener: SensorListener) {
+		this.socket.off(event, listener);
+	}
+
+	onConnectionChange(listener: (connected: boolean) => void) {
+		this.socket.on("connect", () => listener(true));
+		this.socket.on("disconnect", () => listener(false));
+	}
+
+	close() {
+		this.socket.off();
+		this.socket.offAny();
+		this.socket.disconnect();
+	}
+}
+
+// The simulator replaces the gateway when a scenario is selected from the dev panel or ?simulate=
+export const createSensorTransport = (): SensorTransport => {
+	const scenario = getActiveScenario();
+	if (!scenario) return new SocketSensorTransport();
+	sensorLog.info(`Simulating sensors with scenario "${scenario.name}"`);
+	return new SimulatedSensorTransport(scenario);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSample, EMPTY_TRACK, type ConvergenceRule, type StabilityAnalysis } from "./stabilityAnalyzer";
+import type { StepReading } from "./healthSteps";
+
+// Same limits as the temperature step
+const RULE: ConvergenceRule = {
+	kind: "converge",
+	window: 5,
+	maxStdDev: 0.1,
+	maxSlope: 0.05,
+	min: 25,
+	max: 45,
+	maxJump: 1,
+	resetAfter: 3,
+};
+
+// Runs the samples through the analyzer in order and returns every step's analysis
+const feed = (values: StepReading[], track = EMPTY_TRACK) =>
+	values.reduce<StabilityAnalysis[]>((analyses, value) => {
+		const previous = analyses.length ? analyses[analyses.length - 1].track : track;
+		return [...analyses, analyzeSample(RULE, previous, value)];
+	}, []);
+
+const last = (analyses: StabilityAnalysis[]) => analyses[analyses.length - 1];
+
+describe("analyzeSample with a convergence rule", () => {
+	it("never settles on a reading that keeps drifting", () => {
+		const drift = Array.from({ length: 21 }, (_, index) => 31 + index * 0.25);
+
+		const analyses = feed(drift);
+
+		expect(analyses.some((analysis) => analysis.stable)).toBe(false);
+		expect(last(analyses)).toMatchObject({ accepted: true, stable: false });
+		expect(last(analyses).progress).toBeLessThan(1);
+	});
+
+	it("rejects values outside the plausible range without touching the window", () => {
+		const { track } = last(feed([36.5, 36.6]));
+
+		expect(analyzeSample(RULE, track, 24.9)).toMatchObject({ accepted: false, rejectReason: "outOfRange", track });
+		expect(analyzeSample(RULE, track, 45.1)).toMatchObject({ accepted: false, rejectReason: "outOfRange", track });
+		expect(analyzeSample(RULE, track, "36.6")).toMatchObject({ accepted: false, rejectReason: "notNumeric" });
+		expect(analyzeSample(RULE, track, 25).accepted).toBe(true);
+		expect(analyzeSample(RULE, track, 45).accepted).toBe(true);
+	});
+
+	it("rejects a single outlier against the window median", () => {
+		const [, , , spike, back] = feed([36.5, 36.6, 36.5, 38, 36.6]);
+
+		expect(spike).toMatchObject({ accepted: false, rejectReason: "outlier", settled: null });
+		expect(spike.track).toEqual({ window: [36.5, 36.6, 36.5], accepted: 3, rejectedStreak: 1 });
+		expect(back.accepted).toBe(true);
+		expect(back.track).toEqual({ window: [36.5, 36.6, 36.5, 36.6], accepted: 4, rejectedStreak: 0 });
+	});
+
+	it("starts a new window once the outliers reach resetAfter", () => {
+		const analyses = feed([36.5, 36.6, 36.5, 38, 38, 38]);
+
+		expect(analyses.slice(3).map((analysis) => analysis.accepted)).toEqual([false, false, true]);
+		expect(last(analyses).track).toEqual({ window: [38], accepted: 4, rejectedStreak: 0 });
+	});
+
+	it("settles on the window mean rather than the last sample", () => {
+		const analyses = feed([36.5, 36.6, 36.7, 36.6, 36.7]);
+
+		expect(analyses.slice(0, 4).some((analysis) => analysis.stable)).toBe(false);
+		expect(last(analyses)).toMatchObject({ stable: true, progress: 1, settled: 36.62 });
+	});
+});
@@ -0,0 +1,154 @@
+import type { StepReading } from "./healthSteps";
+
+// Outlier rejection needs a median of at least this many samples, so a shorter window would never reject anything
+export const MIN_CONVERGE_WINDOW = 3;
+
+export type SampleCountRule = {
+	// Step is stable once this many valid readings have been received
+	kind: "samples";
+	count: number;
+};
+
+export type ConvergenceRule = {
+	// Step is stable once a full sliding window has settled within the variance and slope limits
+	kind: "converge";
+	window: number;
+	maxStdDev: number;
+	// Absolute trend across the window, in units per sample
+	maxSlope: number;
+	// Physiologically plausible range; anything outside is rejected
+	min: number;
+	max: number;
+	// Samples further than this from the window median are rejected as outliers
+	maxJump: number;
+	// Consecutive outliers that mean the level really changed (e.g. finger re-placed)
+	resetAfter: number;
+};
+
+export type StabilityRule = SampleCountRule | ConvergenceRule;
+
+export type StabilityTrack = {
+	window: number[];
+	accepted: number;
+	rejectedStreak: number;
+};
+
+export type RejectReason = "notNumeric" | "outOfRange" | "outlier";
+
+export type StabilityAnalysis = {
+	track: StabilityTrack;
+	accepted: boolean;
+	rejectReason?: RejectReason;
+	stable: boolean;
+	// 0..1, drives the progress ring
+	progress: number;
+	// Value to record once stable (window mean for convergence, last sample otherwise)
+	settled: StepReading | null;
+};
+
+export const EMPTY_TRACK: StabilityTrack = { window: [], accepted: 0, rejectedStreak: 0 };
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const stdDev = (values: number[]) => {
+	const average = mean(values);
+	return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+// Least-squares slope against the sample index
+const slope = (values: number[]) => {
+	const n = values.length;
+	if (n < 2) return 0;
+	const xMean = (n - 1) / 2;
+	const yMean = mean(values);
+	let numerator = 0;
+	let denominator = 0;
+	values.forEach((value, index) => {
+		numerator += (index - xMean) * (value - yMean);
+		denominator += (index - xMean) ** 2;
+	});
+	return numerator / denominator;
+};
+
+const analyzeSampleCount = (
+	rule: SampleCountRule,
+	track: StabilityTrack,
+	value: StepReading,
+): StabilityAnalysis => {
+	const accepted = track.accepted + 1;
+	return {
+		track: { ...track, accepted },
+		accepted: true,
+		stable: accepted >= rule.count,
+		progress: Math.min(accepted / rule.count, 1),
+		settled: value,
+	};
+};
+
+const convergence = (rule: ConvergenceRule, window: number[]) => {
+	const fill = window.length / rule.window;
+	if (window.length < rule.window) return { stable: false, progress: fill * 0.6 };
+
+	const deviation = stdDev(window);
+	const trend = Math.abs(slope(window));
+	const stable = deviation <= rule.maxStdDev && trend <= rule.maxSlope;
+	const settling = Math.min(
+		1,
+		rule.maxStdDev / Math.max(deviation, Number.EPSILON),
+		rule.maxSlope / Math.max(trend, Number.EPSILON),
+	);
+	return { stable, progress: stable ? 1 : 0.6 + 0.4 * settling };
+};
+
+const analyzeConvergence = (
+	rule: ConvergenceRule,
+	track: StabilityTrack,
+	value: StepReading,
+): StabilityAnalysis => {
+	const reject = (rejectReason: RejectReason, next: StabilityTrack): StabilityAnalysis => ({
+		track: next,
+		accepted: false,
+		rejectReason,
+		...convergence(rule, next.window),
+		stable: false,
+		settled: null,
+	});
+
+	if (typeof value !== "number") return reject("notNumeric", track);
+	if (value < rule.min || value > rule.max) return reject("outOfRange", track);
+
+	let window = track.window;
+	if (window.length >= MIN_CONVERGE_WINDOW && Math.abs(value - median(window)) > rule.maxJump) {
+		const rejectedStreak = track.rejectedStreak + 1;
+		if (rejectedStreak < rule.resetAfter) return reject("outlier", { ...track, rejectedStreak });
+		// The reading moved for good: start converging around the new level
+		window = [];
+	}
+
+	window = [...window, value].slice(-rule.window);
+	const next: StabilityTrack = { window, accepted: track.accepted + 1, rejectedStreak: 0 };
+	const { stable, progress } = convergence(rule, window);
+
+	return {
+		track: next,
+		accepted: true,
+		stable,
+		progress,
+		settled: stable ? parseFloat(mean(window).toFixed(2)) : value,
+	};
+};
+
+export const analyzeSample = (
+	rule: StabilityRule,
+	track: StabilityTrack,
+	value: StepReading,
+): StabilityAnalysis =>
+	rule.kind === "samples"
+		? analyzeSampleCount(rule, track, value)
+		: analyzeConvergence(rule, track, value);
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getSupervisorLockout, getSupervisorPin, isSupervisorUnlocked, unlockSupervisor } from "./supervisorAuth";
+
+const wrongTimes = (count: number) => Array.from({ length: count }, () => unlockSupervisor("0000"));
+
+describe("unlockSupervisor", () => {
+	beforeEach(() => {
+		vi.useFakeTimers({ now: 0 });
+		vi.stubEnv("VITE_SUPERVISOR_PIN", "1234");
+		localStorage.clear();
+		sessionStorage.clear();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllEnvs();
+	});
+
+	it("locks the keypad after five wrong PINs, even for the right one", () => {
+		wrongTimes(4);
+		expect(getSupervisorLockout()).toBe(0);
+
+		wrongTimes(1);
+		expect(getSupervisorLockout()).toBe(30000);
+		expect(unlockSupervisor("1234")).toBe(false);
+		expect(isSupervisorUnlocked()).toBe(false);
+
+		vi.advanceTimersByTime(30000);
+		expect(unlockSupervisor("1234")).toBe(true);
+		expect(isSupervisorUnlocked()).toBe(true);
+	});
+
+	it("doubles the wait for every further wrong PIN and resets after a correct one", () => {
+		wrongTimes(5);
+		vi.advanceTimersByTime(30000);
+		wrongTimes(1);
+		expect(getSupervisorLockout()).toBe(60000);
+
+		vi.advanceTimersByTime(60000);
+		expect(unlockSupervisor("1234")).toBe(true);
+		wrongTimes(4);
+		expect(getSupervisorLockout()).toBe(0);
+	});
+
+	it("treats a PIN the keypad cannot type as not configured", () => {
+		vi.stubEnv("VITE_SUPERVISOR_PIN", "12ab");
+		expect(getSupervisorPin()).toBeNull();
+		expect(unlockSupervisor("12ab")).toBe(false);
+
+		vi.stubEnv("VITE_SUPERVISOR_PIN", "123456789");
+		expect(getSupervisorPin()).toBeNull();
+	});
+});
@@ -0,0 +1,47 @@
+const UNLOCK_STORAGE_KEY = "supervisorUnlockedUntil";
+const FAILURES_STORAGE_KEY = "supervisorPinFailures";
+const LOCKED_UNTIL_STORAGE_KEY = "supervisorLockedUntil";
+const UNLOCK_DURATION = 5 * 60 * 1000;
+// A 4-digit PIN falls to guessing in minutes, so after a few wrong tries every further one doubles the wait
+const MAX_FAILED_ATTEMPTS = 5;
+const BASE_LOCKOUT = 30 * 1000;
+const MAX_LOCKOUT = 15 * 60 * 1000;
+
+// Only what the on-screen keypad can type counts as a PIN
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// Set per site at build time; nothing on the kiosk can change it. Null when unset or not 4–8 digits
+export const getSupervisorPin = (): string | null => {
+	const pin = import.meta.env.VITE_SUPERVISOR_PIN?.trim() ?? "";
+	return PIN_PATTERN.test(pin) ? pin : null;
+};
+
+export const isSupervisorUnlocked = () =>
+	Number(sessionStorage.getItem(UNLOCK_STORAGE_KEY) || 0) > Date.now();
+
+// Milliseconds until the keypad accepts another PIN; kept in localStorage so a reload does not reset it
+export const getSupervisorLockout = () =>
+	Math.max(Number(localStorage.getItem(LOCKED_UNTIL_STORAGE_KEY) || 0) - Date.now(), 0);
+
+const registerFailure = () => {
+	const failures = Number(localStorage.getItem(FAILURES_STORAGE_KEY) || 0) + 1;
+	localStorage.setItem(FAILURES_STORAGE_KEY, String(failures));
+	if (failures < MAX_FAILED_ATTEMPTS) return;
+	const lockout = Math.min(BASE_LOCKOUT * 2 ** (failures - MAX_FAILED_ATTEMPTS), MAX_LOCKOUT);
+	localStorage.setItem(LOCKED_UNTIL_STORAGE_KEY, String(Date.now() + lockout));
+};
+
+export const unlockSupervisor = (pin: string): boolean => {
+	const expected = getSupervisorPin();
+	if (!expected || getSupervisorLockout() > 0) return false;
+	if (pin !== expected) {
+		registerFailure();
+		return false;
+	}
+	localStorage.removeItem(FAILURES_STORAGE_KEY);
+	localStorage.removeItem(LOCKED_UNTIL_STORAGE_KEY);
+	sessionStorage.setItem(UNLOCK_STORAGE_KEY, String(Date.now() + UNLOCK_DURATION));
+	return true;
+};
+
+export const lockSupervisor = () => sessionStorage.removeItem(UNLOCK_STORAGE_KEY);
@@ -0,0 +1,47 @@
+import type { Clock } from "../healthCheckMachine";
+
+export type FakeClock = Clock & {
+	// Moves time forward, firing due timers in order (including ones scheduled while advancing)
+	advance: (ms: number) => void;
+	pending: () => number;
+};
+
+type Timer = { at: number; callback: () => void };
+
+// Deterministic clock for driving the health-check runner and the sensor simulator from tests
+export const createFakeClock = (start = 0): FakeClock => {
+	let now = start;
+	let nextId = 0;
+	const timers = new Map<number, Timer>();
+
+	const nextDue = (until: number) => {
+		let due: [number, Timer] | null = null;
+		for (const entry of timers) {
+			if (entry[1].at <= until && (!due || entry[1].at < due[1].at)) due = entry;
+		}
+		return due;
+	};
+
+	return {
+		now: () => now,
+		setTimeout: (callback, ms) => {
+			const id = nextId++;
+			timers.set(id, { at: now + Math.max(ms, 0), callback });
+			return id;
+		},
+		clearTimeout: (handle) => {
+			timers.delete(handle as number);
+		},
+		advance: (ms) => {
+			const until = now + ms;
+			for (let due = nextDue(until); due; due = nextDue(until)) {
+				const [id, timer] = due;
+				timers.delete(id);
+				now = timer.at;
+				timer.callback();
+			}
+			now = until;
+		},
+		pending: () => timers.size,
+	};
+};
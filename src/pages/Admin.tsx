@@ -0,0 +1,303 @@
+import { useState, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import toast from "react-hot-toast";
+import { GearSix, ListChecks, SignOut, UserPlus } from "@phosphor-icons/react";
+import { Header } from "../components/Header";
+import { SupervisorGate } from "../components/SupervisorGate";
+import { CameraSettings } from "../components/CameraSettings";
+import { SensorMonitor } from "../components/SensorMonitor";
+import { SoundSettings } from "../components/SoundSettings";
+import { CrashLogViewer } from "../components/CrashLogViewer";
+import {
+    getKioskSettings,
+    KIOSK_SETTING_LIMITS,
+    setKioskSettings,
+    validateKioskSettings,
+    type KioskSettings,
+    type NumericKioskSetting,
+} from "../lib/kioskSettings";
+import { getAdmissionPolicy, setAdmissionPolicy } from "../lib/admissionPolicy";
+import { getAlcoholThresholds, setAlcoholThresholds } from "../lib/alcohol";
+import { getSiteId, setSiteId } from "../lib/kioskIdentity";
+import { lockSupervisor } from "../lib/supervisorAuth";
+import { getSiteLocale, i18n, LOCALE_NAMES, LOCALES, setSiteLocale, type Locale, type MessageKey } from "../lib/i18n";
+import { useI18n } from "../lib/hooks/useI18n";
+import { apiClient } from "../lib/services/apiClient";
+import { logger } from "../lib/services/logger";
+
+const kioskLog = logger.category("kiosk");
+
+type FormValues = {
+    siteName: string;
+    siteId: string;
+    siteLocale: Locale;
+    serverUrl: string;
+    stabilitySamples: string;
+    sensorTimeout: string;
+    maxFaceErrors: string;
+    resultsTimeout: string;
+    idleTimeout: string;
+    maxTemperature: string;
+    minTemperature: string;
+    maxAttempts: string;
+    requireSober: boolean;
+    alcoholWarning: string;
+    alcoholFail: string;
+};
+
+type FormErrors = Partial<Record<keyof FormValues, string>>;
+
+type Translate = ReturnType<typeof useI18n>["t"];
+
+const NUMERIC_SETTING_LABELS: Record<NumericKioskSetting, MessageKey> = {
+    stabilitySamples: "admin.stabilitySamples",
+    sensorTimeout: "admin.sensorTimeout",
+    maxFaceErrors: "admin.maxFaceErrors",
+    resultsTimeout: "admin.resultsTimeout",
+    idleTimeout: "admin.idleTimeout",
+};
+
+const loadForm = (): FormValues => {
+    const settings = getKioskSettings();
+    const policy = getAdmissionPolicy();
+    const alcohol = getAlcoholThresholds();
+    return {
+        siteName: settings.siteName,
+        siteId: getSiteId(),
+        siteLocale: getSiteLocale(),
+        serverUrl: apiClient.getConfig().baseUrl,
+        stabilitySamples: String(settings.stabilitySamples),
+        sensorTimeout: String(settings.sensorTimeout),
+        maxFaceErrors: String(settings.maxFaceErrors),
+        resultsTimeout: String(settings.resultsTimeout),
+        idleTimeout: String(settings.idleTimeout),
+        maxTemperature: String(policy.maxTemperature),
+        minTemperature: String(policy.minTemperature),
+        maxAttempts: String(policy.maxAttempts),
+        requireSober: policy.requireSober,
+        alcoholWarning: String(alcohol.warning),
+        alcoholFail: String(alcohol.fail),
+    };
+};
+
+const isHttpUrl = (value: string) => {
+    try {
+        return ["http:", "https:"].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+const validateForm = (values: FormValues, kiosk: KioskSettings, t: Translate): FormErrors => {
+    const errors: FormErrors = { ...validateKioskSettings(kiosk) };
+    const number = (key: keyof FormValues) => Number(values[key]);
+
+    if (!/^[\w-]{1,40}$/.test(values.siteId)) errors.siteId = t("admin.error.siteId");
+    if (values.serverUrl && !isHttpUrl(values.serverUrl)) errors.serverUrl = t("admin.error.serverUrl");
+
+    if (!(number("minTemperature") >= 30 && number("minTemperature") <= 40)) errors.minTemperature = t("admin.error.minTemperature");
+    if (!(number("maxTemperature") >= 36 && number("maxTemperature") <= 42)) errors.maxTemperature = t("admin.error.maxTemperature");
+    else if (number("maxTemperature") <= number("minTemperature")) errors.maxTemperature = t("admin.error.temperatureOrder");
+    if (!Number.isInteger(number("maxAttempts")) || number("maxAttempts") < 1) errors.maxAttempts = t("admin.error.maxAttempts");
+
+    if (!(number("alcoholWarning") > 0)) errors.alcoholWarning = t("admin.error.alcoholPositive");
+    if (!(number("alcoholFail") > 0)) errors.alcoholFail = t("admin.error.alcoholPositive");
+    else if (number("alcoholFail") <= number("alcoholWarning")) errors.alcoholFail = t("admin.error.alcoholOrder");
+
+    return errors;
+};
+
+type FieldProps = {
+    label: string;
+    error?: string;
+    children: ReactNode;
+};
+
+const Field = ({ label, error, children }: FieldProps) => (
+    <label className="flex flex-col gap-1 text-sm text-gray-400">
+        {label}
+        {children}
+        {error && <span className="text-red-500">{error}</span>}
+    </label>
+);
+
+const INPUT_CLASS = "p-3 rounded-lg bg-[#272727] text-white";
+
+function AdminConsole() {
+    const navigate = useNavigate();
+    const { t } = useI18n();
+    const [values, setValues] = useState<FormValues>(loadForm);
+    const [errors, setErrors] = useState<FormErrors>({});
+
+    const field = (key: Exclude<keyof FormValues, "requireSober" | "siteLocale">, label: string, inputMode: "text" | "decimal" = "decimal") => (
+        <Field key={key} label={label} error={errors[key]}>
+            <input
+                className={INPUT_CLASS}
+                inputMode={inputMode}
+                value={values[key]}
+                onChange={(event) => setValues((prev) => ({ ...prev, [key]: event.target.value }))}
+            />
+        </Field>
+    );
+
+    const save = () => {
+        const kiosk: KioskSettings = {
+            siteName: values.siteName.trim(),
+            stabilitySamples: Number(values.stabilitySamples),
+            sensorTimeout: Number(values.sensorTimeout),
+            maxFaceErrors: Number(values.maxFaceErrors),
+            resultsTimeout: Number(values.resultsTimeout),
+            idleTimeout: Number(values.idleTimeout),
+        };
+        const nextErrors = validateForm(values, kiosk, t);
+        setErrors(nextErrors);
+        if (Object.keys(nextErrors).length > 0) {
+            toast.error(t("admin.invalid"));
+            return;
+        }
+
+        setKioskSettings(kiosk);
+        setAdmissionPolicy({
+            maxTemperature: Number(values.maxTemperature),
+            minTemperature: Number(values.minTemperature),
+            maxAttempts: Number(values.maxAttempts),
+            requireSober: values.requireSober,
+        });
+        setAlcoholThresholds({ warning: Number(values.alcoholWarning), fail: Number(values.alcoholFail) });
+        setSiteId(values.siteId);
+        setSiteLocale(values.siteLocale);
+        i18n.reset();
+        if (values.serverUrl !== apiClient.getConfig().baseUrl) apiClient.setServerUrl(values.serverUrl || null);
+        kioskLog.info("Kiosk settings saved");
+        toast.success(t("admin.saved"));
+        setValues(loadForm());
+    };
+
+    const resetToDefaults = () => {
+        setKioskSettings(null);
+        setAdmissionPolicy(null);
+        setAlcoholThresholds(null);
+        setSiteId(null);
+        setSiteLocale(null);
+        i18n.reset();
+        apiClient.setServerUrl(null);
+        setValues(loadForm());
+        setErrors({});
+        toast.success(t("admin.restored"));
+    };
+
+    const exit = () => {
+        lockSupervisor();
+        navigate("/", { replace: true });
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white flex flex-col">
+            <Header />
+
+            <div className="flex-1 flex flex-col items-center p-6 gap-8">
+                <motion.h1
+                    className="text-2xl font-medium flex items-center gap-2"
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    <GearSix size={28} /> {t("admin.title")}
+                </motion.h1>
+
+                <div className="w-full max-w-md flex gap-3">
+                    <button
+                        className="flex-1 py-3 rounded-full bg-[#272727] flex items-center justify-center gap-2"
+                        onClick={() => navigate("/history")}
+                    >
+                        <ListChecks size={20} /> {t("admin.history")}
+                    </button>
+                    <button
+                        className="flex-1 py-3 rounded-full bg-[#272727] flex items-center justify-center gap-2"
+                        onClick={() => navigate("/enroll")}
+                    >
+                        <UserPlus size={20} /> {t("admin.enroll")}
+                    </button>
+                </div>
+
+                <section className="w-full max-w-md flex flex-col gap-4">
+                    <h2 className="text-xl font-medium">{t("admin.site")}</h2>
+                    {field("siteName", t("admin.siteName"), "text")}
+                    {field("siteId", t("admin.siteId"), "text")}
+                    <Field label={t("admin.siteLocale")}>
+                        <select
+                            className={INPUT_CLASS}
+                            value={values.siteLocale}
+                            onChange={(event) =>
+                                setValues((prev) => ({ ...prev, siteLocale: event.target.value as Locale }))
+                            }
+                        >
+                            {LOCALES.map((locale) => (
+                                <option key={locale} value={locale}>
+                                    {LOCALE_NAMES[locale]}
+                                </option>
+                            ))}
+                        </select>
+                    </Field>
+                    {field("serverUrl", t("admin.serverUrl"), "text")}
+                </section>
+
+                <section className="w-full max-w-md flex flex-col gap-4">
+                    <h2 className="text-xl font-medium">{t("admin.check")}</h2>
+                    {(Object.keys(NUMERIC_SETTING_LABELS) as NumericKioskSetting[]).map((key) =>
+                        field(
+                            key,
+                            `${t(NUMERIC_SETTING_LABELS[key])} (${KIOSK_SETTING_LIMITS[key].min}–${KIOSK_SETTING_LIMITS[key].max})`,
+                        ),
+                    )}
+                </section>
+
+                <section className="w-full max-w-md flex flex-col gap-4">
+                    <h2 className="text-xl font-medium">{t("admin.thresholds")}</h2>
+                    {field("maxTemperature", t("admin.maxTemperature"))}
+                    {field("minTemperature", t("admin.minTemperature"))}
+                    {field("maxAttempts", t("admin.maxAttempts"))}
+                    {field("alcoholWarning", t("admin.alcoholWarning"))}
+                    {field("alcoholFail", t("admin.alcoholFail"))}
+                    <label className="flex items-center gap-3">
+                        <input
+                            type="checkbox"
+                            checked={values.requireSober}
+                            onChange={(event) => setValues((prev) => ({ ...prev, requireSober: event.target.checked }))}
+                        />
+                        {t("admin.requireSober")}
+                    </label>
+                </section>
+
+                <div className="w-full max-w-md flex gap-3">
+                    <button className="flex-1 py-3 rounded-full bg-[#272727]" onClick={resetToDefaults}>
+                        {t("admin.defaults")}
+                    </button>
+                    <button className="flex-1 py-3 rounded-full bg-[#5096FF]" onClick={save}>
+                        {t("common.save")}
+                    </button>
+                </div>
+
+                <CameraSettings />
+
+                <SoundSettings />
+
+                <SensorMonitor />
+
+                <CrashLogViewer />
+
+                <button className="flex items-center gap-2 text-gray-400 underline" onClick={exit}>
+                    <SignOut size={20} /> {t("admin.exit")}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default function Admin() {
+    return (
+        <SupervisorGate>
+            <AdminConsole />
+        </SupervisorGate>
+    );
+}
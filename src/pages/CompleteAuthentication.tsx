@@ -1,30 +1,21 @@
 import { useHealthCheck } from "../lib/hooks/useHealthCheck";
 import { Header } from "../components/Header";
 import { LoadingCircle } from "../components/LoadingCircle";
-import { STATES } from "../lib/constants";
 import { motion, AnimatePresence } from "framer-motion";
-
-const MAX_STABILITY_TIME = 7;
+import { useI18n } from "../lib/hooks/useI18n";
 
 export default function HealthCheck() {
 	const {
 		currentState,
-		stabilityTime,
-		temperatureData,
-		alcoholData,
+		step,
+		progress,
+		readings,
 		secondsLeft,
-		handleComplete,
 	} = useHealthCheck();
+	const { t } = useI18n();
 
-	const state = STATES[currentState];
-
-	let displayValue: string | number | null = "loading";
-	if (currentState === "TEMPERATURE" && temperatureData?.temperature !== undefined) {
-		displayValue = Number(temperatureData.temperature).toFixed(1);
-	} else if (currentState === "ALCOHOL" && alcoholData?.alcoholLevel) {
-		displayValue = alcoholData.alcoholLevel;
-		console.log("📡 Alcohol Level Displayed:", displayValue);
-	}
+	const reading = readings[currentState];
+	const displayValue: string | number | null = reading ?? "loading";
 
 	return (
 		<div className="min-h-screen bg-black text-white flex flex-col">
@@ -33,32 +24,27 @@ export default function HealthCheck() {
 				<AnimatePresence mode="wait">
 					<motion.div key={currentState} className="text-center">
 						<motion.h1 className="text-xl md:text-2xl font-medium mb-2">
-							{state.title}
+							{step.title}
 						</motion.h1>
-						<motion.p className="text-gray-400 mb-12">{state.subtitle}</motion.p>
+						<motion.p className="text-gray-400 a11y:text-white mb-12">{step.subtitle}</motion.p>
 					</motion.div>
 				</AnimatePresence>
 
 				<div className="flex flex-col items-center gap-4">
 				<LoadingCircle
     key={currentState}
-    icon={state.icon}
+    icon={step.icon}
+    label={step.title}
     value={displayValue}
-    unit={state.unit}
-    progress={
-        currentState === "TEMPERATURE"
-            ? (stabilityTime / MAX_STABILITY_TIME) * 100  // ✅ Temperature progresses normally
-            : alcoholData.alcoholLevel !== "Не определено"
-            ? 100  // ✅ Alcohol jumps to 100% once detected
-            : 0  // ✅ Prevents alcohol from showing an incomplete progress bar
-    }
-    onComplete={handleComplete} // ✅ Triggers navigation only for alcohol
+    unit={step.unit}
+    precision={step.precision}
+    progress={progress}
 />
 
 
 					{displayValue === "loading" && (
-						<span className="text-sm text-gray-400">
-							{`Осталось ${secondsLeft} секунд`}
+						<span className="text-sm text-gray-400 a11y:text-lg a11y:text-white">
+							{t("common.secondsLeft", { count: secondsLeft })}
 						</span>
 					)}
 				</div>
@@ -0,0 +1,84 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Header } from "../components/Header";
+import { EmployeeCard } from "../components/EmployeeCard";
+import { useCheckSession } from "../lib/hooks/useCheckSession";
+import { checkSession } from "../lib/services/checkSession";
+import { registerAttempt } from "../lib/admissionPolicy";
+import { useI18n } from "../lib/hooks/useI18n";
+import { logger } from "../lib/services/logger";
+
+// Nobody confirming means nobody is standing at the kiosk any more
+const CONFIRM_TIMEOUT = 15000;
+
+const faceLog = logger.category("face");
+const navigationLog = logger.category("navigation");
+
+export default function ConfirmIdentity() {
+    const navigate = useNavigate();
+    const session = useCheckSession();
+    const { t } = useI18n();
+    const faceId = session?.faceId ?? null;
+    const employee = session?.employee ?? null;
+
+    useEffect(() => {
+        if (!faceId || !employee) {
+            navigate("/", { replace: true });
+            return;
+        }
+        const timeout = setTimeout(() => {
+            navigationLog.info("Identity not confirmed in time, returning home");
+            navigate("/", { replace: true });
+        }, CONFIRM_TIMEOUT);
+        return () => clearTimeout(timeout);
+    }, [faceId, employee, navigate]);
+
+    if (!faceId || !employee) return null;
+
+    const confirm = () => {
+        registerAttempt(faceId);
+        navigate("/health-check", { replace: true });
+    };
+
+    const reject = () => {
+        faceLog.warn(`Face ${faceId} rejected by the worker as a wrong match`);
+        checkSession.begin();
+        navigate("/face-identification", { replace: true });
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white flex flex-col">
+            <Header />
+
+            <div className="flex-1 flex flex-col items-center justify-center p-6 gap-8">
+                <motion.h1
+                    className="text-3xl font-medium text-center"
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    {t("confirm.greeting", { name: employee.name })}
+                </motion.h1>
+
+                <EmployeeCard employee={employee} size="large" />
+
+                <div className="w-full max-w-md flex flex-col gap-3">
+                    <motion.button
+                        className="w-full py-4 bg-[#5096FF] a11y:bg-yellow-300 a11y:text-black rounded-full text-white text-lg a11y:text-2xl font-medium"
+                        onClick={confirm}
+                        whileTap={{ scale: 0.98 }}
+                    >
+                        {t("confirm.yes")}
+                    </motion.button>
+                    <motion.button
+                        className="w-full py-4 bg-[#272727] a11y:bg-black a11y:border-2 a11y:border-white rounded-full text-white text-lg a11y:text-2xl font-medium"
+                        onClick={reject}
+                        whileTap={{ scale: 0.98 }}
+                    >
+                        {t("confirm.no")}
+                    </motion.button>
+                </div>
+            </div>
+        </div>
+    );
+}
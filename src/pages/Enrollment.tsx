@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import toast from "react-hot-toast";
+import { UserPlus } from "@phosphor-icons/react";
+import { Header } from "../components/Header";
+import { SupervisorGate } from "../components/SupervisorGate";
+import { VideoDisplay } from "../components/VideoDisplay";
+import { useCamera } from "../lib/hooks/useCamera";
+import { useI18n } from "../lib/hooks/useI18n";
+import { assessFrameQuality, QUALITY_HINTS, type FaceLocator } from "../lib/frameQuality";
+import type { MessageKey } from "../lib/i18n";
+import { createFaceLocator } from "../lib/faceDetector";
+import { faceRecognitionService } from "../lib/services/faceRecognitionService";
+import { logger } from "../lib/services/logger";
+
+const ENROLL_FRAME_COUNT = 5;
+const ENROLL_FRAME_INTERVAL = 500;
+
+const faceLog = logger.category("face");
+
+type Employee = { employeeId: string; name: string };
+
+type CaptureStageProps = {
+    onCaptured: (images: string[]) => void;
+    onCancel: () => void;
+};
+
+const CaptureStage = ({ onCaptured, onCancel }: CaptureStageProps) => {
+    const { t } = useI18n();
+    const [images, setImages] = useState<string[]>([]);
+    // Kept as a key so the hint follows a language switch mid-capture
+    const [hint, setHint] = useState<MessageKey>("enroll.lookAtCamera");
+    const analyzingRef = useRef(false);
+    const imagesRef = useRef<string[]>([]);
+    // null while the detector model is still loading
+    const [locator, setLocator] = useState<{ locateFace?: FaceLocator } | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+        createFaceLocator().then((locateFace) => {
+            if (mounted) setLocator({ locateFace });
+        });
+        return () => {
+            mounted = false;
+        };
+    }, []);
+
+    const handleFrame = useCallback(
+        async (imageData: string) => {
+            if (!locator || analyzingRef.current || imagesRef.current.length >= ENROLL_FRAME_COUNT) return;
+            analyzingRef.current = true;
+
+            try {
+                const quality = await assessFrameQuality(imageData, locator.locateFace);
+                if (!quality.passed) {
+                    setHint(QUALITY_HINTS[quality.issues[0]]);
+                    return;
+                }
+
+                imagesRef.current = [...imagesRef.current, imageData];
+                setImages(imagesRef.current);
+                setHint("enroll.holdStill");
+                if (imagesRef.current.length === ENROLL_FRAME_COUNT) onCaptured(imagesRef.current);
+            } catch (err) {
+                faceLog.error("Error assessing enrollment frame", err);
+            } finally {
+                analyzingRef.current = false;
+            }
+        },
+        [locator, onCaptured],
+    );
+
+    const { videoRef, canvasRef, error: cameraError, loading } = useCamera({
+        onFrame: handleFrame,
+        frameInterval: ENROLL_FRAME_INTERVAL,
+    });
+
+    return (
+        <>
+            <p className="text-center text-gray-400 mb-8">
+                {loading ? `📷 ${t("face.connecting")}` : cameraError || t(hint)}
+            </p>
+            <VideoDisplay
+                videoRef={videoRef}
+                canvasRef={canvasRef}
+                isProcessing={false}
+                prompt={loading ? null : t("enroll.shot", { count: images.length, total: ENROLL_FRAME_COUNT })}
+                captured={images.length}
+                total={ENROLL_FRAME_COUNT}
+            />
+            <button type="button" className="mt-8 text-gray-400 underline" onClick={onCancel}>
+                {t("common.cancel")}
+            </button>
+        </>
+    );
+};
+
+function EnrollmentFlow() {
+    const navigate = useNavigate();
+    const { t } = useI18n();
+    const [employee, setEmployee] = useState<Employee>({ employeeId: "", name: "" });
+    const [stage, setStage] = useState<"form" | "capture" | "submitting">("form");
+    const [error, setError] = useState<MessageKey | null>(null);
+
+    const canStart = employee.employeeId.trim() !== "" && employee.name.trim() !== "";
+
+    const handleCaptured = useCallback(
+        async (images: string[]) => {
+            setStage("submitting");
+            try {
+                const result = await faceRecognitionService.enrollFace({
+                    employeeId: employee.employeeId.trim(),
+                    name: employee.name.trim(),
+                    images,
+                });
+                if (!result.success) throw new Error(result.error || "Enrollment rejected");
+
+                toast.success(t("enroll.done", { name: employee.name }));
+                setEmployee({ employeeId: "", name: "" });
+                setStage("form");
+            } catch (err) {
+                faceLog.error("Error enrolling face", err);
+                setError("enroll.failed");
+                setStage("form");
+            }
+        },
+        [employee, t],
+    );
+
+    return (
+        <div className="min-h-screen bg-black text-white flex flex-col">
+            <Header />
+
+            <div className="flex-1 flex flex-col items-center justify-center p-6">
+                <motion.h1
+                    className="text-2xl font-medium mb-6 flex items-center gap-2"
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    <UserPlus size={28} /> {t("enroll.title")}
+                </motion.h1>
+
+                {stage === "form" && (
+                    <form
+                        className="w-full max-w-md flex flex-col gap-4"
+                        onSubmit={(event) => {
+                            event.preventDefault();
+                            if (!canStart) return;
+                            setError(null);
+                            setStage("capture");
+                        }}
+                    >
+                        <input
+                            className="w-full p-4 rounded-lg bg-[#272727] text-white"
+                            placeholder={t("enroll.employeeId")}
+                            value={employee.employeeId}
+                            onChange={(event) => setEmployee((prev) => ({ ...prev, employeeId: event.target.value }))}
+                        />
+                        <input
+                            className="w-full p-4 rounded-lg bg-[#272727] text-white"
+                            placeholder={t("enroll.name")}
+                            value={employee.name}
+                            onChange={(event) => setEmployee((prev) => ({ ...prev, name: event.target.value }))}
+                        />
+                        {error && <p className="text-red-500 text-center">{t(error)}</p>}
+                        <button
+                            type="submit"
+                            disabled={!canStart}
+                            className="w-full py-4 bg-[#5096FF] rounded-full text-white text-lg font-medium disabled:opacity-40"
+                        >
+                            {t("enroll.start")}
+                        </button>
+                        <button
+                            type="button"
+                            className="text-gray-400 underline"
+                            onClick={() => navigate("/admin")}
+                        >
+                            {t("common.back")}
+                        </button>
+                    </form>
+                )}
+
+                {stage === "capture" && <CaptureStage onCaptured={handleCaptured} onCancel={() => navigate("/admin")} />}
+
+                {stage === "submitting" && <p className="text-gray-400">{t("enroll.submitting")}</p>}
+            </div>
+        </div>
+    );
+}
+
+export default function Enrollment() {
+    return (
+        <SupervisorGate>
+            <EnrollmentFlow />
+        </SupervisorGate>
+    );
+}
@@ -7,6 +7,16 @@ import { useCamera } from "../lib/hooks/useCamera";
 import toast from "react-hot-toast";
 import { faceRecognitionService } from "../lib/services/faceRecognitionService";
 import { ERROR_MESSAGES } from "../lib/constants";
+import { registerAttempt } from "../lib/admissionPolicy";
+import { useLivenessCheck } from "../lib/hooks/useLivenessCheck";
+import { LIVENESS_FRAME_INTERVAL, type LivenessEvidence } from "../lib/liveness";
+import { getKioskSettings } from "../lib/kioskSettings";
+import { checkSession, getSessionStage } from "../lib/services/checkSession";
+import { useI18n } from "../lib/hooks/useI18n";
+import { audioFeedback } from "../lib/services/audioFeedback";
+import { logger } from "../lib/services/logger";
+
+const faceLog = logger.category("face");
 
 
 export default function FaceIdentification() {
@@ -14,14 +24,17 @@ export default function FaceIdentification() {
     const [error, setError] = useState<string | null>(null);
     const [consecutiveErrors, setConsecutiveErrors] = useState(0);
     const navigate = useNavigate();
+    const { t } = useI18n();
+    const liveness = useLivenessCheck();
+    const { addFrame, reset: resetLiveness } = liveness;
 
     const handleError = useCallback(
         (errorMessage: string) => {
             setError(errorMessage);
             setConsecutiveErrors((prev) => {
                 const newCount = prev + 1;
-                if (newCount >= 3) {
-                    toast.error(`Ошибка: ${errorMessage}`, {
+                if (newCount >= getKioskSettings().maxFaceErrors) {
+                    toast.error(t("face.errorToast", { message: errorMessage }), {
                         duration: 3000,
                         style: { background: "#000", color: "#fff", borderRadius: "8px" },
                     });
@@ -31,50 +44,88 @@ export default function FaceIdentification() {
                 return newCount;
             });
         },
-        [navigate]
+        [navigate, t]
     );
 
     const handleFrame = useCallback(
         async (imageData: string) => {
             if (isProcessing) return;
 
+            let evidence: LivenessEvidence | null;
+            try {
+                evidence = await addFrame(imageData);
+            } catch (err) {
+                // A failed burst would otherwise stay full and swallow every later frame
+                faceLog.error("Error collecting liveness frames", err);
+                resetLiveness();
+                handleError(t(ERROR_MESSAGES.FACE_RECOGNITION_ERROR));
+                return;
+            }
+            if (!evidence) return;
+
             setIsProcessing(true);
             try {
-                const data = await faceRecognitionService.verifyFace(imageData);
+                if (!evidence.consistency.passed) {
+                    faceLog.warn("Liveness frames rejected", evidence.consistency);
+                    handleError(t(ERROR_MESSAGES.LIVENESS_FAILED));
+                    return;
+                }
+
+                const data = await faceRecognitionService.verifyLiveFace(evidence);
 
-                if (data.matched) {
+                if (data.liveness && !data.liveness.passed) {
+                    handleError(t(ERROR_MESSAGES.LIVENESS_FAILED));
+                } else if (data.matched && !data.liveness) {
+                    // The kiosk cannot tell whether the challenge was performed; only the backend's verdict admits
+                    faceLog.warn("Match without a liveness verdict, rejecting");
+                    handleError(t(ERROR_MESSAGES.LIVENESS_FAILED));
+                } else if (data.matched) {
                     setConsecutiveErrors(0);
-                    localStorage.setItem("faceId", data.faceId!);
-                    navigate("/health-check");
+                    checkSession.identify(data.faceId!, data.employee ?? null);
+                    if (data.employee) {
+                        // The worker confirms the match there, which also counts the attempt
+                        navigate("/confirm-identity");
+                    } else {
+                        registerAttempt(data.faceId!);
+                        navigate("/health-check");
+                    }
                 } else if (data.error === "No face detected in image") {
-                    handleError(ERROR_MESSAGES.FACE_NOT_DETECTED);
+                    handleError(t(ERROR_MESSAGES.FACE_NOT_DETECTED));
                 } else {
-                    handleError(ERROR_MESSAGES.FACE_NOT_MATCHED);
+                    handleError(t(ERROR_MESSAGES.FACE_NOT_MATCHED));
                 }
             } catch (err) {
-                console.error("Error verifying face:", err);
-                handleError(ERROR_MESSAGES.FACE_RECOGNITION_ERROR);
+                faceLog.error("Error verifying face", err);
+                handleError(t(ERROR_MESSAGES.FACE_RECOGNITION_ERROR));
             } finally {
+                resetLiveness();
                 setIsProcessing(false);
             }
         },
-        [isProcessing, navigate, handleError]
+        [isProcessing, navigate, handleError, addFrame, resetLiveness, t]
     );
 
-    const { videoRef, canvasRef, error: cameraError, loading } = useCamera({
+    const { videoRef, canvasRef, error: cameraError, loading, guidance } = useCamera({
         onFrame: handleFrame,
+        frameInterval: LIVENESS_FRAME_INTERVAL,
+        requireFace: true,
     });
 
     useEffect(() => {
         setError(null);
         setConsecutiveErrors(0);
+        // Reached without pressing the Home button (e.g. a kiosk reload or browser history): anything past the
+        // start belongs to an earlier identification, so begin a fresh session
+        const session = checkSession.get();
+        if (!session || getSessionStage(session) !== "started") checkSession.begin();
+        audioFeedback.speak("face.voicePrompt");
     }, []);
 
     const errorMessage = loading
-        ? "📷 Подключаемся к камере..."
+        ? `📷 ${t("face.connecting")}`
         : isProcessing
-        ? "🔍 Проверка..."
-        : cameraError || error || "📸 Сканируйте своё лицо для подтверждения";
+        ? `🔍 ${t("face.checking")}`
+        : cameraError || error || `📸 ${t("face.prompt")}`;
 
     // const renderStatusIcon = () => {
     //     if (loading) return <FaFingerprint className="text-white text-6xl animate-pulse" />;
@@ -93,7 +144,7 @@ export default function FaceIdentification() {
                     initial={{ opacity: 0, y: -20 }}
                     animate={{ opacity: 1, y: 0 }}
                 >
-                    🏆 Распознавание лица
+                    {`🏆 ${t("face.title")}`}
                 </motion.h1>
 
                 {/* <motion.div
@@ -106,7 +157,9 @@ export default function FaceIdentification() {
                 </motion.div> */}
 
                 <motion.p
-                    className={`text-center text-gray-400 mb-8 ${isProcessing ? "text-yellow-400" : ""}`}
+                    className={`text-center text-gray-400 a11y:text-white a11y:text-xl mb-8 ${isProcessing ? "text-yellow-400" : ""}`}
+                    role="status"
+                    aria-live="polite"
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     transition={{ delay: 0.2 }}
@@ -116,16 +169,25 @@ export default function FaceIdentification() {
 
                 {consecutiveErrors >= 2 && (
                     <motion.p
-                        className="text-center text-red-500 mb-6"
+                        className="text-center text-red-500 a11y:text-xl mb-6"
+                        role="alert"
                         initial={{ opacity: 0 }}
                         animate={{ opacity: 1 }}
                         transition={{ delay: 0.2 }}
                     >
-                        ⚠️ Несколько ошибок подряд. Попробуйте изменить освещение или положение лица.
+                        {`⚠️ ${t("face.repeatedErrors")}`}
                     </motion.p>
                 )}
 
-                <VideoDisplay videoRef={videoRef} canvasRef={canvasRef} isProcessing={isProcessing} />
+                <VideoDisplay
+                    videoRef={videoRef}
+                    canvasRef={canvasRef}
+                    isProcessing={isProcessing}
+                    prompt={loading ? null : liveness.prompt}
+                    captured={liveness.captured}
+                    total={liveness.total}
+                    guidance={loading ? undefined : guidance}
+                />
             </div>
         </div>
     );
@@ -1,51 +1,112 @@
-import { useNavigate, useLocation } from "react-router-dom";
+import { useNavigate } from "react-router-dom";
 import { Header } from "../components/Header";
 import { motion } from "framer-motion";
 import { useEffect } from "react";
+import { getStep, READING_TONE_CLASSES } from "../lib/healthSteps";
+import type { AdmissionDecision } from "../lib/admissionPolicy";
+import { VerdictBanner } from "../components/VerdictBanner";
+import { useDoorUnlock } from "../lib/hooks/useDoorUnlock";
+import { getKioskSettings } from "../lib/kioskSettings";
+import { EmployeeCard } from "../components/EmployeeCard";
+import { useCheckSession } from "../lib/hooks/useCheckSession";
+import type { CheckSession } from "../lib/services/checkSession";
+import { useI18n } from "../lib/hooks/useI18n";
+import { audioFeedback } from "../lib/services/audioFeedback";
+import { logger } from "../lib/services/logger";
 
-export default function FinalResults() {
-    const navigate = useNavigate();
-    const location = useLocation();
+const submitLog = logger.category("submit");
+const navigationLog = logger.category("navigation");
 
-    // Retrieve data from location.state or localStorage (as a fallback)
-    const storedTemperature = JSON.parse(localStorage.getItem("finalTemperature") || "null");
-    const storedAlcoholLevel = JSON.parse(localStorage.getItem("finalAlcoholLevel") || "null");
+type CheckResultsProps = {
+    session: CheckSession;
+    decision: AdmissionDecision;
+};
 
-    const { temperature, alcoholLevel } = location.state || {
-        temperature: storedTemperature ?? "Неизвестно",
-        alcoholLevel: storedAlcoholLevel ?? "Неизвестно",
-    };
+function CheckResults({ session, decision }: CheckResultsProps) {
+    const navigate = useNavigate();
+    const { sequence, readings, employee } = session;
+    const door = useDoorUnlock(decision.verdict, session.faceId);
+    const { t } = useI18n();
 
     useEffect(() => {
-        console.log("📡 Final Results - received state:", { temperature, alcoholLevel });
+        submitLog.debug("Showing results", readings);
 
+        const { resultsTimeout } = getKioskSettings();
         const timeout = setTimeout(() => {
-            console.log("🔄 Auto-navigating to home after 7 seconds...");
+            navigationLog.info(`Results shown for ${resultsTimeout}s, returning home`);
             navigate("/", { replace: true });
-        }, 7000);
+        }, resultsTimeout * 1000);
 
         return () => clearTimeout(timeout);
-    }, [navigate, temperature, alcoholLevel]);
+    }, [navigate, readings]);
+
+    useEffect(() => {
+        audioFeedback.tone(decision.verdict === "ALLOW" ? "success" : "failure");
+        audioFeedback.speak(`verdict.${decision.verdict}`);
+    }, [decision.verdict]);
 
     return (
         <div className="min-h-screen bg-black text-white flex flex-col">
             <Header />
             <motion.div className="flex-1 flex flex-col items-center justify-center p-6">
-                <motion.h1 className="text-2xl font-semibold mb-6">Результаты проверки</motion.h1>
-
-                <div className="w-full max-w-md bg-gray-900 p-6 rounded-lg shadow-md text-center">
-                    <div className="mb-4">
-                        <p className="text-lg text-gray-400">Температура:</p>
-                        <p className="text-3xl font-bold">{temperature !== "Неизвестно" ? `${temperature}°C` : "Нет данных"}</p>
-                    </div>
-                    <div className="mb-4">
-                        <p className="text-lg text-gray-400">Уровень алкоголя:</p>
-                        <p className={`text-3xl font-bold ${alcoholLevel === "Пьяный" ? "text-red-500" : "text-green-500"}`}>
-                            {alcoholLevel !== "Неизвестно" ? alcoholLevel : "Нет данных"}
-                        </p>
-                    </div>
+                <motion.h1 className="text-2xl a11y:text-3xl font-semibold mb-6">{t("results.title")}</motion.h1>
+
+                {employee && <EmployeeCard employee={employee} />}
+
+                <VerdictBanner decision={decision} />
+
+                <div aria-live="polite">
+                    {door.status === "unlocking" && (
+                        <p className="text-lg text-gray-400 a11y:text-white mb-6">{t("results.unlocking")}</p>
+                    )}
+                    {door.status === "unlocked" && (
+                        <p className="text-lg text-green-500 mb-6">{t("results.unlocked")}</p>
+                    )}
+                    {door.status === "unavailable" && (
+                        <p className="text-lg text-yellow-400 a11y:text-white text-center mb-6">{t("results.doorUnavailable")}</p>
+                    )}
+                    {door.status === "failed" && (
+                        <div className="flex flex-col items-center gap-3 mb-6">
+                            <p className="text-lg text-red-500 text-center">
+                                {t("results.unlockFailed", { error: door.error ?? "" })}
+                            </p>
+                            <motion.button
+                                className="px-8 py-3 bg-[#5096FF] a11y:bg-yellow-300 a11y:text-black rounded-full text-white font-medium"
+                                onClick={door.retry}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                {t("common.retry")}
+                            </motion.button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="w-full max-w-md bg-gray-900 a11y:bg-black a11y:border-2 a11y:border-white p-6 rounded-lg shadow-md text-center">
+                    {sequence.map((key) => {
+                        const step = getStep(key);
+                        const value = readings[key];
+                        const description = value !== undefined ? step.describe?.(value) : undefined;
+                        return (
+                            <div key={key} className="mb-4">
+                                <p className="text-lg text-gray-400 a11y:text-white">{step.label}:</p>
+                                <p className={`text-3xl font-bold ${description ? READING_TONE_CLASSES[description.tone] : ""}`}>
+                                    {value !== undefined ? step.format(value) : t("common.noData")}
+                                </p>
+                                {description && (
+                                    <p className={`text-lg ${READING_TONE_CLASSES[description.tone]}`}>{description.label}</p>
+                                )}
+                            </div>
+                        );
+                    })}
                 </div>
             </motion.div>
         </div>
     );
 }
+
+export default function FinalResults() {
+    const session = useCheckSession();
+    // The route guard sends an unfinished session home; this only covers the render before it does
+    if (!session?.admission) return null;
+    return <CheckResults session={session} decision={session.admission} />;
+}
@@ -2,45 +2,49 @@ import { useHealthCheck } from "../lib/hooks/useHealthCheck";
 import { useEffect, useState } from "react";
 import { Header } from "../components/Header";
 import { LoadingCircle } from "../components/LoadingCircle";
-import { STATES } from "../lib/constants";
 import { motion, AnimatePresence } from "framer-motion";
+import { useI18n } from "../lib/hooks/useI18n";
+import { logger } from "../lib/services/logger";
 
-const MAX_STABILITY_TIME = 7;
+const sensorLog = logger.category("sensor");
 
 export default function HealthCheck() {
     const {
         currentState,
-        stabilityTime,
-        temperatureData,
-        alcoholData,
+        step,
+        progress,
+        readings,
         sensorReady,
         secondsLeft,
-        handleComplete,
+        status,
+        retry,
     } = useHealthCheck();
+    const { t } = useI18n();
 
-    const state = STATES[currentState];
+    const reading = readings[currentState];
+    const waitingForSensor = Boolean(step.requiresSensorReady) && !sensorReady;
 
-    // ✅ Реалтайм-обновление значения (температура + алкоголь)
-    const displayValue =
-        currentState === "TEMPERATURE" && temperatureData.temperature !== undefined
-            ? Number(temperatureData.temperature).toFixed(1) + "°C"
-            : currentState === "ALCOHOL" && alcoholData?.alcoholLevel
-            ? alcoholData.alcoholLevel
-            : "Нет данных";
+    // ✅ Реалтайм-обновление значения текущего шага
+    const displayValue = reading !== undefined ? step.format(reading) : t("common.noData");
 
     // ✅ Логи для отладки данных
     useEffect(() => {
-        console.log("🌡️ Температура обновлена:", temperatureData.temperature);
-        console.log("🍷 Alcohol Level:", alcoholData.alcoholLevel);
-        console.log("🚦 Sensor Ready:", sensorReady);
-    }, [temperatureData.temperature, alcoholData.alcoholLevel, sensorReady]);
+        sensorLog.debug(`${currentState} reading`, { reading, sensorReady });
+    }, [currentState, reading, sensorReady]);
+
+    // Screen readers hear each step's instruction and its final value, not every intermediate sample
+    const announcement = waitingForSensor
+        ? t("health.waitingSensor")
+        : status === "stable" && reading !== undefined
+          ? `${step.label}: ${displayValue}`
+          : `${step.title}. ${step.subtitle}`;
 
     // 🆕 Локальный таймер для обратного отсчета
     const [countdown, setCountdown] = useState(secondsLeft);
     const [countdownStarted, setCountdownStarted] = useState(false);
 
     useEffect(() => {
-        if (currentState === "ALCOHOL" && sensorReady && !countdownStarted) {
+        if (step.requiresSensorReady && sensorReady && !countdownStarted) {
             setCountdownStarted(true);
             setCountdown(secondsLeft);
 
@@ -54,38 +58,39 @@ export default function HealthCheck() {
 
             return () => clearInterval(timer);
         }
-    }, [sensorReady, countdownStarted, currentState, secondsLeft]);
+    }, [sensorReady, countdownStarted, step.requiresSensorReady, secondsLeft]);
 
     return (
         <div className="min-h-screen bg-black text-white flex flex-col">
             <Header />
+            <p className="sr-only" role="status" aria-live="polite">
+                {announcement}
+            </p>
             <motion.div className="flex-1 flex flex-col items-center justify-center p-6">
                 <AnimatePresence mode="wait">
                     <motion.div key={currentState} className="text-center">
-                        {currentState === "ALCOHOL" && !sensorReady ? (
+                        {waitingForSensor ? (
                             <>
-                                <motion.h1 className="text-xl md:text-2xl font-medium mb-2">
-                                    Ожидание сенсора...
+                                <motion.h1 className="text-xl md:text-2xl a11y:text-3xl font-medium mb-2">
+                                    {t("health.waitingSensor")}
                                 </motion.h1>
-                                <motion.p className="text-gray-400 mb-12">
-                                    Пожалуйста, подождите...
+                                <motion.p className="text-gray-400 a11y:text-white mb-12">
+                                    {t("health.pleaseWait")}
                                 </motion.p>
                             </>
                         ) : (
                             <>
-                                <motion.h1 className="text-xl md:text-2xl font-medium mb-2">
-                                    {state.title}
+                                <motion.h1 className="text-xl md:text-2xl a11y:text-3xl font-medium mb-2">
+                                    {step.title}
                                 </motion.h1>
 
-                                {currentState === "ALCOHOL" && sensorReady && countdown > 0 ? (
+                                {step.requiresSensorReady && sensorReady && countdown > 0 ? (
                                     <motion.p className="text-lg text-yellow-400 mb-4">
-                                        Осталось {countdown} секунд
+                                        {t("common.secondsLeft", { count: countdown })}
                                     </motion.p>
                                 ) : (
-                                    <motion.p className="text-gray-400 mb-4">
-                                        {currentState === "ALCOHOL"
-                                            ? "Подуйте 3-4 секунды"
-                                            : state.subtitle}
+                                    <motion.p className="text-gray-400 a11y:text-white a11y:text-xl mb-4">
+                                        {step.subtitle}
                                     </motion.p>
                                 )}
                             </>
@@ -97,28 +102,51 @@ export default function HealthCheck() {
                 <div className="relative flex items-center justify-center">
                     <LoadingCircle
                         key={currentState}
-                        icon={state.icon}
-                        value={displayValue}
-                        unit={state.unit}
-                        progress={
-                            currentState === "TEMPERATURE" && temperatureData.temperature !== undefined
-                                ? (stabilityTime / MAX_STABILITY_TIME) * 100
-                                : currentState === "ALCOHOL" && alcoholData.alcoholLevel !== "Не определено"
-                                ? 100
-                                : 0
-                        }
-                        onComplete={handleComplete}
+                        icon={step.icon}
+                        label={step.title}
+                        value={typeof reading === "number" ? reading : displayValue}
+                        unit={step.unit}
+                        precision={step.precision}
+                        description={reading !== undefined ? step.describe?.(reading) : null}
+                        progress={progress}
                     />
-                    {/* ✅ Температура ровно между иконкой и прогресс-баром */}
-                    <motion.p
-                        className="absolute top-[50%] md:top-[53%] text-xs md:text-sm font-medium text-white"
+                    {/* ✅ Нечисловое значение ровно между иконкой и прогресс-баром */}
+                    {typeof reading !== "number" && (
+                        <motion.p
+                            className="absolute top-[50%] md:top-[53%] text-xs md:text-sm a11y:text-lg font-medium text-white"
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            exit={{ opacity: 0 }}
+                        >
+                            {displayValue}
+                        </motion.p>
+                    )}
+                </div>
+
+                {status === "submitting" && (
+                    <motion.p className="text-gray-400 a11y:text-white mt-8" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                        {t("health.submitting")}
+                    </motion.p>
+                )}
+
+                {status === "failed" && (
+                    <motion.div
+                        className="flex flex-col items-center gap-4 mt-8"
                         initial={{ opacity: 0 }}
                         animate={{ opacity: 1 }}
-                        exit={{ opacity: 0 }}
                     >
-                        {displayValue}
-                    </motion.p>
-                </div>
+                        <p className="text-red-500 text-center" role="alert">
+                            {t("health.submitFailed")}
+                        </p>
+                        <motion.button
+                            className="px-8 py-3 bg-[#5096FF] a11y:bg-yellow-300 a11y:text-black rounded-full text-white font-medium"
+                            onClick={retry}
+                            whileTap={{ scale: 0.98 }}
+                        >
+                            {t("common.retry")}
+                        </motion.button>
+                    </motion.div>
+                )}
             </motion.div>
         </div>
     );
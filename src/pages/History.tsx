@@ -0,0 +1,202 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { differenceInCalendarDays, format, parse, startOfDay } from "date-fns";
+import { ArrowClockwise, CloudArrowUp, FileCsv, FilePdf, ListChecks } from "@phosphor-icons/react";
+import { Header } from "../components/Header";
+import { SupervisorGate } from "../components/SupervisorGate";
+import {
+    downloadCsv,
+    HISTORY_COLUMNS,
+    MAX_HISTORY_DAYS,
+    printReport,
+    summarizeHistory,
+    VERDICT_LABELS,
+} from "../lib/checkHistory";
+import { useCheckHistory } from "../lib/hooks/useCheckHistory";
+import type { Verdict } from "../lib/admissionPolicy";
+import { useI18n } from "../lib/hooks/useI18n";
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+
+const VERDICT_CLASSES: Record<Verdict, string> = {
+    ALLOW: "text-green-500",
+    DENY: "text-red-500",
+    REVIEW: "text-yellow-400",
+};
+
+const parseDateInput = (value: string) => parse(value, DATE_INPUT_FORMAT, new Date());
+
+function HistoryLog() {
+    const navigate = useNavigate();
+    const { t } = useI18n();
+    const today = format(new Date(), DATE_INPUT_FORMAT);
+    const [fromInput, setFromInput] = useState(today);
+    const [toInput, setToInput] = useState(today);
+    const [verdict, setVerdict] = useState<Verdict | "all">("all");
+
+    const from = useMemo(() => parseDateInput(fromInput), [fromInput]);
+    const to = useMemo(() => parseDateInput(toInput), [toInput]);
+    const rangeError =
+        Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())
+            ? t("history.rangeMissing")
+            : from > to
+              ? t("history.rangeOrder")
+              : differenceInCalendarDays(to, from) >= MAX_HISTORY_DAYS
+                ? t("history.rangeTooLong", { days: MAX_HISTORY_DAYS })
+                : null;
+
+    // An invalid range falls back to today rather than querying nonsense
+    const filter = useMemo(
+        () => (rangeError ? { from: startOfDay(new Date()), to: startOfDay(new Date()), verdict } : { from, to, verdict }),
+        [rangeError, from, to, verdict],
+    );
+    const { entries, loading, error, reload } = useCheckHistory(filter);
+    const summary = summarizeHistory(entries);
+    const title = t("history.reportTitle", {
+        from: format(filter.from, "dd.MM.yyyy"),
+        to: format(filter.to, "dd.MM.yyyy"),
+    });
+
+    return (
+        <div className="min-h-screen bg-black text-white flex flex-col">
+            <Header />
+
+            <div className="flex-1 flex flex-col items-center p-6 gap-6">
+                <motion.h1
+                    className="text-2xl font-medium flex items-center gap-2"
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    <ListChecks size={28} /> {t("history.title")}
+                </motion.h1>
+
+                <div className="w-full max-w-3xl flex flex-wrap items-end gap-3">
+                    <label className="flex flex-col gap-1 text-sm text-gray-400">
+                        {t("history.from")}
+                        <input
+                            type="date"
+                            className="p-2 rounded-lg bg-[#272727] text-white"
+                            value={fromInput}
+                            max={today}
+                            onChange={(event) => setFromInput(event.target.value)}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-400">
+                        {t("history.to")}
+                        <input
+                            type="date"
+                            className="p-2 rounded-lg bg-[#272727] text-white"
+                            value={toInput}
+                            max={today}
+                            onChange={(event) => setToInput(event.target.value)}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-400">
+                        {t("history.column.verdict")}
+                        <select
+                            className="p-2 rounded-lg bg-[#272727] text-white"
+                            value={verdict}
+                            onChange={(event) => setVerdict(event.target.value as Verdict | "all")}
+                        >
+                            <option value="all">{t("history.all")}</option>
+                            {(Object.keys(VERDICT_LABELS) as Verdict[]).map((key) => (
+                                <option key={key} value={key}>
+                                    {t(VERDICT_LABELS[key])}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <button className="p-2 rounded-lg bg-[#272727]" onClick={reload} aria-label={t("history.reload")}>
+                        <ArrowClockwise size={24} />
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        className="flex items-center gap-1 p-2 rounded-lg bg-[#272727] disabled:opacity-40"
+                        disabled={entries.length === 0}
+                        onClick={() => downloadCsv(entries, `checks-${format(filter.from, DATE_INPUT_FORMAT)}.csv`)}
+                    >
+                        <FileCsv size={24} /> CSV
+                    </button>
+                    <button
+                        className="flex items-center gap-1 p-2 rounded-lg bg-[#272727] disabled:opacity-40"
+                        disabled={entries.length === 0}
+                        onClick={() => printReport(entries, title)}
+                    >
+                        <FilePdf size={24} /> PDF
+                    </button>
+                </div>
+                {rangeError && <p className="text-red-500">{rangeError}</p>}
+
+                <div className="w-full max-w-3xl grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                    {[
+                        { label: t("history.summary.passed"), value: summary.passed, className: "text-green-500" },
+                        { label: t("history.summary.failed"), value: summary.failed, className: "text-red-500" },
+                        { label: t("history.summary.review"), value: summary.review, className: "text-yellow-400" },
+                        { label: t("history.summary.retried"), value: summary.retried, className: "text-white" },
+                    ].map(({ label, value, className }) => (
+                        <div key={label} className="bg-gray-900 rounded-lg p-4">
+                            <p className={`text-3xl font-bold ${className}`}>{value}</p>
+                            <p className="text-sm text-gray-400">{label}</p>
+                        </div>
+                    ))}
+                </div>
+
+                {error && <p className="text-red-500">{error}</p>}
+                {loading ? (
+                    <p className="text-gray-400">{t("history.loading")}</p>
+                ) : entries.length === 0 ? (
+                    <p className="text-gray-400">{t("history.empty")}</p>
+                ) : (
+                    <div className="w-full max-w-3xl overflow-x-auto">
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    {HISTORY_COLUMNS.slice(0, 5).map(({ title }) => (
+                                        <th key={title} className="p-2">
+                                            {t(title)}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {entries.map((entry) => (
+                                    <tr key={entry.id} className="border-t border-gray-800">
+                                        {HISTORY_COLUMNS.slice(0, 4).map(({ title, value }) => (
+                                            <td key={title} className="p-2">
+                                                {value(entry)}
+                                            </td>
+                                        ))}
+                                        <td className={`p-2 ${VERDICT_CLASSES[entry.admission.verdict]}`}>
+                                            <span className="flex items-center gap-1">
+                                                {t(VERDICT_LABELS[entry.admission.verdict])}
+                                                {entry.attempt > 1 && (
+                                                    <span className="text-gray-400">{t("history.attempt", { count: entry.attempt })}</span>
+                                                )}
+                                                {entry.pendingUpload && (
+                                                    <CloudArrowUp size={16} className="text-yellow-400" aria-label={t("history.notSent")} />
+                                                )}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <button className="text-gray-400 underline" onClick={() => navigate("/admin")}>
+                    {t("common.back")}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default function History() {
+    return (
+        <SupervisorGate>
+            <HistoryLog />
+        </SupervisorGate>
+    );
+}
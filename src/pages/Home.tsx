@@ -1,20 +1,34 @@
 import { useState, useEffect } from "react";
 import { format } from "date-fns";
-import { ru } from "date-fns/locale";
-import { Heart, Thermometer, Wine } from "@phosphor-icons/react";
+import { Heart, TextAa, Thermometer, Wine } from "@phosphor-icons/react";
 import { motion } from "framer-motion";
 import { useNavigate } from "react-router-dom";
+import { getKioskSettings } from "../lib/kioskSettings";
+import { checkSession } from "../lib/services/checkSession";
+import { i18n, LOCALE_NAMES, LOCALES } from "../lib/i18n";
+import { useI18n } from "../lib/hooks/useI18n";
+import { accessibilityMode } from "../lib/accessibility";
+import { useAccessibilityMode } from "../lib/hooks/useAccessibilityMode";
 
 function Home() {
 	const navigate = useNavigate();
 	const [time, setTime] = useState(new Date());
+	const { siteName } = getKioskSettings();
+	const { locale, t, dateLocale } = useI18n();
+	const highContrast = useAccessibilityMode();
+
+	// Every journey starts here, so the previous worker's session and language must not leak into the next one
+	useEffect(() => {
+		checkSession.reset();
+		i18n.reset();
+	}, []);
 
 	useEffect(() => {
 		const timer = setInterval(() => setTime(new Date()), 1000);
 		return () => clearInterval(timer);
 	}, []);
 
-	const formattedDate = format(time, "EEEE, dd.MM", { locale: ru });
+	const formattedDate = format(time, "EEEE, dd.MM", { locale: dateLocale });
 	const formattedTime = format(time, "HH:mm");
 
 	return (
@@ -22,6 +36,7 @@ function Home() {
 			<div className="h-24 w-24">
 				<img src="/logo.jpg" alt="Logo" className="w-full h-full" />
 			</div>
+			{siteName && <p className="text-lg text-gray-400 a11y:text-white text-center">{siteName}</p>}
 
 			<div className="flex-1 flex flex-col items-center justify-center">
 				<motion.h1
@@ -55,13 +70,40 @@ function Home() {
 				</div>
 			</div>
 
+			<div className="flex flex-wrap justify-center gap-2 mb-4">
+				<div className="flex gap-2" role="group" aria-label={t("home.language")}>
+					{LOCALES.map((option) => (
+						<button
+							key={option}
+							className={`px-4 py-2 rounded-full text-sm ${option === locale ? "bg-white text-black" : "bg-[#272727] text-white"}`}
+							aria-pressed={option === locale}
+							lang={option}
+							onClick={() => i18n.set(option)}
+						>
+							{LOCALE_NAMES[option]}
+						</button>
+					))}
+				</div>
+				<button
+					className={`flex items-center gap-1 px-4 py-2 rounded-full text-sm ${highContrast ? "bg-yellow-300 text-black" : "bg-[#272727] text-white"}`}
+					aria-pressed={highContrast}
+					onClick={() => accessibilityMode.set(!highContrast)}
+				>
+					<TextAa size={20} />
+					{t("home.accessibility")}
+				</button>
+			</div>
+
 			<motion.button
-				className={`w-full py-4 bg-[#5096FF] rounded-full text-white text-lg font-medium relative`}
-				onClick={() => navigate("/face-identification")}
+				className={`w-full py-4 bg-[#5096FF] a11y:bg-yellow-300 a11y:text-black rounded-full text-white text-lg a11y:text-2xl font-medium relative`}
+				onClick={() => {
+					checkSession.begin();
+					navigate("/face-identification");
+				}}
 				whileHover={{ scale: 1.02 }}
 				whileTap={{ scale: 0.98 }}
 			>
-				открыть дверь
+				{t("home.openDoor")}
 			</motion.button>
 		</div>
 	);
@@ -1 +1,40 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+	readonly VITE_SERVER_URL?: string;
+	readonly VITE_SOCKET_URL?: string;
+	readonly VITE_API_TOKEN?: string;
+	readonly VITE_HEALTH_STEPS?: string;
+	readonly VITE_ALCOHOL_WARNING_MGL?: string;
+	readonly VITE_ALCOHOL_FAIL_MGL?: string;
+	readonly VITE_SITE_ID?: string;
+	readonly VITE_SITE_NAME?: string;
+	readonly VITE_DEFAULT_LOCALE?: "ru" | "kk" | "en";
+	readonly VITE_SUPERVISOR_PIN?: string;
+	readonly VITE_KIOSK_ID?: string;
+	readonly VITE_DOOR_ACTUATOR?: "socket" | "http" | "simulated" | "none";
+	readonly VITE_DOOR_RELAY_URL?: string;
+	readonly VITE_DOOR_UNLOCK_MS?: string;
+	readonly VITE_DOOR_SIMULATED_FAILURE_RATE?: string;
+	readonly VITE_CAMERA_PRIORITY?: string;
+	readonly VITE_CAMERA_DEVICE_ID?: string;
+	readonly VITE_CAMERA_FILE_URL?: string;
+	readonly VITE_ALLOW_SIMULATOR?: string;
+	readonly VITE_VOICE_CLIPS_URL?: string;
+	readonly VITE_KIOSK_MODE?: string;
+	readonly VITE_LOG_LEVEL?: "debug" | "info" | "warn" | "error";
+	readonly VITE_LOG_ENDPOINT?: string;
+	readonly VITE_FIREBASE_API_KEY?: string;
+	readonly VITE_FIREBASE_AUTH_DOMAIN?: string;
+	readonly VITE_FIREBASE_DATABASE_URL?: string;
+	readonly VITE_FIREBASE_PROJECT_ID?: string;
+	readonly VITE_FIREBASE_STORAGE_BUCKET?: string;
+	readonly VITE_FIREBASE_MESSAGING_SENDER_ID?: string;
+	readonly VITE_FIREBASE_APP_ID?: string;
+	readonly VITE_FIREBASE_MEASUREMENT_ID?: string;
+	readonly VITE_FIREBASE_EMULATOR_HOST?: string;
+}
+
+interface ImportMeta {
+	readonly env: ImportMetaEnv;
+}
@@ -1,8 +1,13 @@
+import plugin from "tailwindcss/plugin";
+
 /** @type {import('tailwindcss').Config} */
 export default {
 	content: ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"],
 	theme: {
 		extend: {},
 	},
-	plugins: [],
+	plugins: [
+		// `a11y:` styles apply while the kiosk's accessibility mode is on
+		plugin(({ addVariant }) => addVariant("a11y", ".a11y &")),
+	],
 };
@@ -1,6 +1,13 @@
 import { defineConfig } from "vite";
+import { configDefaults } from "vitest/config";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
-});
\ No newline at end of file
+  test: {
+    // The kiosk code reads localStorage and the DOM at import time
+    environment: "jsdom",
+    // Run by Playwright in a real browser (npm run test:browser)
+    exclude: [...configDefaults.exclude, "src/e2e/browser/**"],
+  },
+});